@@ -0,0 +1,6 @@
+import { captureClipboard } from "./lib/capture";
+
+// Runs on an interval in the background so entries copied between openings of the list aren't lost
+export default async function Command() {
+  await captureClipboard();
+}
@@ -0,0 +1,262 @@
+import { Action, ActionPanel, Clipboard, Icon, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { ReactElement, useState } from "react";
+import { perform, trashEntry } from "../lib/actions";
+import { isLocked } from "../lib/bucket-locks";
+import { BUCKET_SORTS, BucketSort, sortedItems } from "../lib/bucket-sort";
+import { breadcrumb, childBuckets } from "../lib/bucket-tree";
+import { contentIcon } from "../lib/content-type";
+import { entryLabel } from "../lib/format";
+import { recordUse } from "../lib/frecency";
+import { Bucket, ClipboardEntry } from "../lib/storage";
+import { isTemplate } from "../lib/templates";
+import { UnlockForm } from "./bucket-lock";
+import { bucketAccessories, bucketSummary, ContentActions, EntryDetail, entryAccessories } from "./entry";
+import { PasteAction, PasteAsSubmenu, usePresets } from "./paste";
+import { EditActions } from "./revisions";
+import { pasteJoined, SequenceView } from "./sequences";
+import { TagActions } from "./tags";
+import { useStore } from "./use-store";
+
+/**
+ * The items of one bucket, with its sub-buckets listed above them. `renderBucketActions` lets the main command
+ * offer its full bucket management; other commands get a plain "Open Bucket". A locked bucket asks for the
+ * passphrase first. Items are listed in the bucket's sort mode; in manual order they can be moved around.
+ */
+export function BucketItemsView({
+  bucket: initialBucket,
+  buckets: initialBuckets,
+  selectedEntryId,
+  renderBucketActions,
+}: {
+  bucket: Bucket;
+  buckets: Bucket[];
+  selectedEntryId?: string;
+  renderBucketActions?: (bucket: Bucket) => ReactElement;
+}) {
+  const { push } = useNavigation();
+  // Starts from what the opening view had, then follows changes made anywhere in the command
+  const buckets = useStore()?.buckets ?? initialBuckets;
+  const bucket = buckets.find((b) => b.id === initialBucket.id) ?? initialBucket;
+  const items = sortedItems(bucket);
+  const sort = bucket.sort ?? "manual";
+  const [selected, setSelected] = useState<string[]>([]);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
+  // Unlocking is remembered in the lock module; this only re-renders once it happens
+  const [, setUnlocked] = useState(false);
+  const presets = usePresets();
+  const selectedEntries = selected.flatMap((id) => items.find((e) => e.id === id) ?? []);
+
+  function toggleSelection(id: string) {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]));
+  }
+
+  function enterSelectionMode(id: string) {
+    setSelectionMode(true);
+    setSelected([id]);
+  }
+
+  function exitSelectionMode() {
+    setSelectionMode(false);
+    setSelected([]);
+  }
+
+  async function pasteSelected() {
+    await pasteJoined(selectedEntries, "\n");
+    setSelected([]);
+    setSelectionMode(false);
+  }
+
+  async function handleRemove(entry: ClipboardEntry) {
+    setSelected((prev) => prev.filter((id) => id !== entry.id));
+    await perform("Moved back to Recent", [{ type: "entry", entry, place: { index: 0 } }]);
+  }
+
+  async function handleDelete(entry: ClipboardEntry) {
+    if (!(await trashEntry(entry))) return;
+    setSelected((prev) => prev.filter((id) => id !== entry.id));
+  }
+
+  // Only manual order can be rearranged; the other sorts are worked out each time
+  async function moveItem(entry: ClipboardEntry, index: number, title: string) {
+    await perform(title, [{ type: "entry", entry, place: { bucketId: bucket.id, index } }]);
+  }
+
+  async function changeSort(value: BucketSort) {
+    if (value === sort) return;
+    const title = BUCKET_SORTS.find((s) => s.value === value)?.title ?? value;
+    await perform(`Sorted "${bucket.name}" by ${title}`, [
+      { type: "bucket", bucket: { id: bucket.id, sort: value === "manual" ? undefined : value } },
+    ]);
+  }
+
+  function bucketActions(child: Bucket) {
+    if (renderBucketActions) return renderBucketActions(child);
+    return (
+      <ActionPanel>
+        <Action
+          title="Open Bucket"
+          icon={Icon.ArrowRight}
+          onAction={() => push(<BucketItemsView bucket={child} buckets={buckets} />)}
+        />
+      </ActionPanel>
+    );
+  }
+
+  if (isLocked(bucket)) return <UnlockForm bucket={bucket} onUnlock={() => setUnlocked(true)} />;
+
+  return (
+    <List
+      navigationTitle={breadcrumb(buckets, bucket.id)}
+      selectedItemId={selectedEntryId}
+      isShowingDetail={isShowingDetail}
+      searchBarPlaceholder={selectionMode ? `Selection mode — ${selected.length} selected` : "Type a number to jump..."}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Sort Items" value={sort} onChange={(value) => changeSort(value as BucketSort)}>
+          {BUCKET_SORTS.map(({ value, title }) => (
+            <List.Dropdown.Item key={value} value={value} title={title} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      <List.Section title="Buckets">
+        {childBuckets(buckets, bucket.id).map((child) => (
+          <List.Item
+            key={`bucket-${child.id}`}
+            icon={{ source: child.icon, tintColor: child.color }}
+            title={child.name}
+            subtitle={bucketSummary(child, buckets)}
+            accessories={bucketAccessories(child)}
+            actions={bucketActions(child)}
+          />
+        ))}
+      </List.Section>
+      <List.Section title="Items">
+        {items.map((entry, i) => {
+          const isSelected = selected.includes(entry.id);
+          const selectionIndex = selected.indexOf(entry.id);
+
+          const reorderActions = sort === "manual" && (
+            <ActionPanel.Section>
+              {i > 0 && (
+                <Action
+                  title="Move Upward"
+                  icon={Icon.ArrowUp}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                  onAction={() => moveItem(entry, i - 1, "Moved up")}
+                />
+              )}
+              {i < items.length - 1 && (
+                <Action
+                  title="Move Downward"
+                  icon={Icon.ArrowDown}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                  onAction={() => moveItem(entry, i + 1, "Moved down")}
+                />
+              )}
+              {i > 0 && (
+                <Action
+                  title="Move to Top"
+                  icon={Icon.ArrowUpCircle}
+                  shortcut={{ modifiers: ["cmd", "opt", "shift"], key: "arrowUp" }}
+                  onAction={() => moveItem(entry, 0, "Moved to top")}
+                />
+              )}
+            </ActionPanel.Section>
+          );
+
+          const copyAndDeleteActions = (
+            <>
+              <Action
+                title="Copy"
+                icon={Icon.CopyClipboard}
+                onAction={async () => {
+                  await Clipboard.copy(entry.content, { concealed: !!entry.sensitive });
+                  await recordUse([entry.id]);
+                  await showToast({ style: Toast.Style.Success, title: "Copied" });
+                }}
+              />
+              <Action title="Remove from Bucket" icon={Icon.MinusCircle} onAction={() => handleRemove(entry)} />
+              <Action
+                title="Move to Trash"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                onAction={() => handleDelete(entry)}
+              />
+            </>
+          );
+
+          return (
+            <List.Item
+              key={entry.id}
+              id={entry.id}
+              icon={
+                isSelected
+                  ? Icon.CheckCircle
+                  : isTemplate(entry.content)
+                    ? Icon.Snippets
+                    : contentIcon(entry.contentType, entry.content)
+              }
+              title={`${i + 1}. ${entryLabel(entry).replace(/\n/g, " ").trim()}`}
+              // Notes aren't in the title, so their words are added to what the search bar filters on
+              keywords={[String(i + 1), ...(entry.note?.split(/\s+/).filter(Boolean) ?? [])]}
+              accessories={
+                isSelected ? [{ tag: String(selectionIndex + 1) }] : isShowingDetail ? [] : entryAccessories(entry)
+              }
+              detail={<EntryDetail entry={entry} />}
+              actions={
+                selectionMode ? (
+                  <ActionPanel>
+                    <Action
+                      title={isSelected ? "Deselect" : "Select"}
+                      icon={isSelected ? Icon.CheckCircle : Icon.Circle}
+                      onAction={() => toggleSelection(entry.id)}
+                    />
+                    <Action
+                      title={`Paste ${selected.length} Selected`}
+                      icon={Icon.Clipboard}
+                      onAction={pasteSelected}
+                    />
+                    <Action
+                      title={`Arrange ${selected.length} Selected`}
+                      icon={Icon.List}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                      onAction={() => push(<SequenceView entryIds={selected} />)}
+                    />
+                    <PasteAsSubmenu entries={selectedEntries} presets={presets} />
+                    <TagActions entries={selectedEntries} />
+                    <Action
+                      title="Exit Selection Mode"
+                      icon={Icon.XMarkCircle}
+                      shortcut={{ modifiers: ["ctrl"], key: "escape" }}
+                      onAction={exitSelectionMode}
+                    />
+                    {copyAndDeleteActions}
+                  </ActionPanel>
+                ) : (
+                  <ActionPanel>
+                    <PasteAction content={entry.content} entryId={entry.id} />
+                    <PasteAsSubmenu entries={[entry]} presets={presets} />
+                    <Action title="Select" icon={Icon.Circle} onAction={() => enterSelectionMode(entry.id)} />
+                    <TagActions entries={[entry]} />
+                    <EditActions entry={entry} />
+                    <Action
+                      title={isShowingDetail ? "Hide Details" : "Show Details"}
+                      icon={Icon.Sidebar}
+                      shortcut={{ modifiers: ["cmd"], key: "d" }}
+                      onAction={() => setIsShowingDetail((showing) => !showing)}
+                    />
+                    {copyAndDeleteActions}
+                    {reorderActions}
+                    <ContentActions entry={entry} />
+                  </ActionPanel>
+                )
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
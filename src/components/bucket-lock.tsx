@@ -0,0 +1,102 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { hasPassphrase, setLocked, setPassphrase, unlock } from "../lib/bucket-locks";
+import { Bucket } from "../lib/storage";
+
+/** Asks for the lock passphrase, calling `onUnlock` once it's right. */
+export function UnlockForm({ bucket, onUnlock }: { bucket: Bucket; onUnlock: () => void }) {
+  const [error, setError] = useState<string>();
+
+  return (
+    <Form
+      navigationTitle={`Unlock "${bucket.name}"`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Unlock"
+            icon={Icon.LockUnlocked}
+            onSubmit={async (values: { passphrase: string }) => {
+              if (await unlock(bucket.id, values.passphrase)) onUnlock();
+              else setError("Wrong passphrase");
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`"${bucket.name}" is locked.`} />
+      <Form.PasswordField id="passphrase" title="Passphrase" error={error} onChange={() => setError(undefined)} />
+    </Form>
+  );
+}
+
+// Shown the first time a bucket is locked
+function PassphraseForm({ onSubmit }: { onSubmit: (passphrase: string) => void }) {
+  const [mismatch, setMismatch] = useState<string>();
+
+  return (
+    <Form
+      navigationTitle="Set Lock Passphrase"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Set Passphrase"
+            icon={Icon.Key}
+            onSubmit={(values: { passphrase: string; confirm: string }) => {
+              if (!values.passphrase) setMismatch("Enter a passphrase");
+              else if (values.passphrase !== values.confirm) setMismatch("Passphrases don't match");
+              else onSubmit(values.passphrase);
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="One passphrase unlocks every locked bucket. It can't be recovered if it's forgotten." />
+      <Form.PasswordField id="passphrase" title="Passphrase" />
+      <Form.PasswordField id="confirm" title="Confirm" error={mismatch} onChange={() => setMismatch(undefined)} />
+    </Form>
+  );
+}
+
+/** Locks a bucket, or takes its lock off once the passphrase is entered. */
+export function LockActions({ bucket }: { bucket: Bucket }) {
+  const { push, pop } = useNavigation();
+
+  async function changeLock(locked: boolean) {
+    await setLocked(bucket.id, locked);
+    await showToast({ style: Toast.Style.Success, title: `${locked ? "Locked" : "Unlocked"} "${bucket.name}"` });
+  }
+
+  async function lock() {
+    if (await hasPassphrase()) return changeLock(true);
+    push(
+      <PassphraseForm
+        onSubmit={async (passphrase) => {
+          await setPassphrase(passphrase);
+          pop();
+          await changeLock(true);
+        }}
+      />,
+    );
+  }
+
+  return bucket.locked ? (
+    <Action
+      title="Remove Lock"
+      icon={Icon.LockUnlocked}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+      onAction={() =>
+        push(
+          <UnlockForm
+            bucket={bucket}
+            onUnlock={async () => {
+              pop();
+              await changeLock(false);
+            }}
+          />,
+        )
+      }
+    />
+  ) : (
+    <Action title="Lock Bucket" icon={Icon.Lock} shortcut={{ modifiers: ["cmd", "shift"], key: "l" }} onAction={lock} />
+  );
+}
@@ -0,0 +1,72 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { perform } from "../lib/actions";
+import { breadcrumb } from "../lib/bucket-tree";
+import { contentIcon } from "../lib/content-type";
+import {
+  bestMember,
+  DuplicateMember,
+  findDuplicates,
+  groupKey,
+  loadIgnored,
+  mergeEdits,
+  saveIgnored,
+} from "../lib/duplicates";
+import { displayText, entryMarkdown, truncate } from "../lib/format";
+import { useStore } from "./use-store";
+
+/** Entries that look like the same thing copied more than once, grouped so each group can be merged into one. */
+export function DuplicatesView() {
+  const data = useStore();
+  const [ignored, setIgnored] = useState<string[]>();
+
+  useEffect(() => {
+    loadIgnored().then(setIgnored);
+  }, []);
+
+  const buckets = data?.buckets ?? [];
+  const groups = data && ignored ? findDuplicates(data.history, buckets, ignored) : [];
+
+  async function merge(group: DuplicateMember[], keep: DuplicateMember) {
+    await perform(`Merged ${group.length} duplicates`, mergeEdits(group, keep));
+  }
+
+  async function ignore(group: DuplicateMember[]) {
+    const updated = [...(ignored ?? []), groupKey(group)];
+    setIgnored(updated);
+    await saveIgnored(updated);
+  }
+
+  return (
+    <List navigationTitle="Duplicates" isLoading={!data || !ignored} isShowingDetail>
+      <List.EmptyView icon={Icon.CheckCircle} title="No Duplicates" description="Every entry is one of a kind" />
+      {groups.map((group, n) => {
+        const best = bestMember(group);
+        return (
+          <List.Section key={groupKey(group)} title={`Group ${n + 1}`} subtitle={`${group.length} versions`}>
+            {group.map((member) => (
+              <List.Item
+                key={member.entry.id}
+                icon={contentIcon(member.entry.contentType, member.entry.content)}
+                title={truncate(displayText(member.entry), 40)}
+                accessories={[
+                  ...(member === best ? [{ icon: Icon.Star, tooltip: "Best version" }] : []),
+                  { tag: member.bucket ? breadcrumb(buckets, member.bucket.id) : "Recent" },
+                  { text: `${member.entry.copyCount}×`, tooltip: `Copied ${member.entry.copyCount} times` },
+                ]}
+                detail={<List.Item.Detail markdown={entryMarkdown(member.entry)} />}
+                actions={
+                  <ActionPanel>
+                    <Action title="Merge Group" icon={Icon.Layers} onAction={() => merge(group, best)} />
+                    <Action title="Keep This Version" icon={Icon.Checkmark} onAction={() => merge(group, member)} />
+                    <Action title="Not Duplicates" icon={Icon.EyeDisabled} onAction={() => ignore(group)} />
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,154 @@
+import { Action, Color, Icon, List } from "@raycast/api";
+import { Stats } from "fs";
+import { stat } from "fs/promises";
+import { useEffect, useState } from "react";
+import {
+  contentIcon,
+  CONTENT_TYPES,
+  expandPath,
+  hexToRgb,
+  minifiedJson,
+  prettyJson,
+  rgbToHex,
+  toUrl,
+} from "../lib/content-type";
+import { entryMarkdown, formatBytes, MatchRange } from "../lib/format";
+import { Bucket, ClipboardEntry } from "../lib/storage";
+
+export function bucketSummary(bucket: Bucket, buckets: Bucket[]): string {
+  const children = buckets.filter((b) => b.parentId === bucket.id).length;
+  const items = `${bucket.items.length} item${bucket.items.length !== 1 ? "s" : ""}`;
+  return children > 0 ? `${children} bucket${children !== 1 ? "s" : ""}, ${items}` : items;
+}
+
+export function bucketAccessories(bucket: Bucket): List.Item.Accessory[] {
+  const accessories: List.Item.Accessory[] = [];
+  if (bucket.locked) accessories.push({ icon: Icon.Lock, tooltip: "Locked" });
+  if (bucket.synced) accessories.push({ icon: Icon.Cloud, tooltip: "Shared via the sync folder" });
+  if (bucket.pinned) accessories.push({ icon: Icon.Pin, tooltip: "Pinned" });
+  return accessories;
+}
+
+export function entryAccessories(entry: ClipboardEntry): List.Item.Accessory[] {
+  const accessories: List.Item.Accessory[] = (entry.tags ?? []).map((tag) => ({ tag, icon: Icon.Tag }));
+  if (entry.pinned) accessories.unshift({ icon: Icon.Pin, tooltip: "Pinned, kept regardless of retention limits" });
+  if (entry.copyCount > 1)
+    accessories.push({ text: `${entry.copyCount}×`, tooltip: `Copied ${entry.copyCount} times` });
+  if (entry.sourceApp) {
+    accessories.push({
+      icon: entry.sourceApp.path ? { fileIcon: entry.sourceApp.path } : Icon.AppWindow,
+      tooltip: `Copied from ${entry.sourceApp.name}`,
+    });
+  }
+  accessories.push({ date: new Date(entry.lastCopiedAt), tooltip: new Date(entry.lastCopiedAt).toLocaleString() });
+  return accessories;
+}
+
+function useFileStats(path: string | undefined) {
+  const [stats, setStats] = useState<Stats>();
+  useEffect(() => {
+    if (!path) return;
+    stat(expandPath(path))
+      .then(setStats)
+      .catch(() => setStats(undefined));
+  }, [path]);
+  return stats;
+}
+
+export function EntryDetail({ entry, ranges }: { entry: ClipboardEntry; ranges?: MatchRange[] }) {
+  const isFile = ["path", "file", "image"].includes(entry.contentType) && !entry.sensitive;
+  const stats = useFileStats(isFile ? entry.content : undefined);
+
+  return (
+    <List.Item.Detail
+      markdown={entry.note ? `${entry.note}\n\n---\n\n${entryMarkdown(entry, ranges)}` : entryMarkdown(entry, ranges)}
+      metadata={
+        <List.Item.Detail.Metadata>
+          {entry.title && <List.Item.Detail.Metadata.Label title="Title" text={entry.title} />}
+          <List.Item.Detail.Metadata.Label
+            title="Type"
+            text={CONTENT_TYPES[entry.contentType]?.title ?? entry.contentType}
+            icon={contentIcon(entry.contentType, entry.content)}
+          />
+          {entry.language && <List.Item.Detail.Metadata.Label title="Language" text={entry.language} />}
+          {entry.contentType === "color" && (
+            <List.Item.Detail.Metadata.TagList title="Colour">
+              <List.Item.Detail.Metadata.TagList.Item text={entry.content} color={entry.content} />
+            </List.Item.Detail.Metadata.TagList>
+          )}
+          {isFile && !stats && <List.Item.Detail.Metadata.Label title="File" text="Not found" />}
+          {stats && (
+            <>
+              <List.Item.Detail.Metadata.Label title="Kind" text={stats.isDirectory() ? "Folder" : "File"} />
+              {!stats.isDirectory() && <List.Item.Detail.Metadata.Label title="Size" text={formatBytes(stats.size)} />}
+              <List.Item.Detail.Metadata.Label title="Modified" text={stats.mtime.toLocaleString()} />
+            </>
+          )}
+          {entry.tags && entry.tags.length > 0 && (
+            <List.Item.Detail.Metadata.TagList title="Tags">
+              {entry.tags.map((tag) => (
+                <List.Item.Detail.Metadata.TagList.Item key={tag} text={tag} />
+              ))}
+            </List.Item.Detail.Metadata.TagList>
+          )}
+          {entry.sensitive && (
+            <List.Item.Detail.Metadata.TagList title="Sensitive">
+              <List.Item.Detail.Metadata.TagList.Item text={entry.sensitive} color={Color.Red} />
+            </List.Item.Detail.Metadata.TagList>
+          )}
+          {entry.expiresAt && (
+            <List.Item.Detail.Metadata.Label title="Deleted At" text={new Date(entry.expiresAt).toLocaleString()} />
+          )}
+          {entry.sourceApp && (
+            <List.Item.Detail.Metadata.Label
+              title="Source"
+              text={entry.sourceApp.name}
+              icon={entry.sourceApp.path ? { fileIcon: entry.sourceApp.path } : undefined}
+            />
+          )}
+          <List.Item.Detail.Metadata.Label title="Times Copied" text={String(entry.copyCount)} />
+          <List.Item.Detail.Metadata.Label title="First Copied" text={new Date(entry.firstCopiedAt).toLocaleString()} />
+          <List.Item.Detail.Metadata.Label title="Last Copied" text={new Date(entry.lastCopiedAt).toLocaleString()} />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
+
+// Extra actions that only make sense for some kinds of content
+export function ContentActions({ entry }: { entry: ClipboardEntry }) {
+  const text = entry.content.trim();
+  switch (entry.contentType) {
+    case "url":
+      return <Action.OpenInBrowser url={toUrl(text)} shortcut={{ modifiers: ["cmd"], key: "o" }} />;
+    case "email":
+      return <Action.OpenInBrowser title="Compose Email" icon={Icon.Envelope} url={`mailto:${text}`} />;
+    case "json":
+      return (
+        <>
+          <Action.CopyToClipboard title="Copy as Formatted JSON" content={prettyJson(text) ?? text} />
+          <Action.CopyToClipboard title="Copy as Minified JSON" content={minifiedJson(text) ?? text} />
+        </>
+      );
+    case "color": {
+      const converted = hexToRgb(text) ?? rgbToHex(text);
+      return converted ? <Action.CopyToClipboard title={`Copy as ${converted}`} content={converted} /> : null;
+    }
+    case "code":
+      return (
+        <Action.CopyToClipboard title="Copy as Code Block" content={`\`\`\`${entry.language ?? ""}\n${text}\n\`\`\``} />
+      );
+    case "path":
+    case "file":
+    case "image":
+      return (
+        <>
+          <Action.Open title="Open" target={expandPath(text)} shortcut={{ modifiers: ["cmd"], key: "o" }} />
+          <Action.ShowInFinder path={expandPath(text)} />
+          <Action.CopyToClipboard title="Copy File" content={{ file: expandPath(text) }} />
+        </>
+      );
+    default:
+      return null;
+  }
+}
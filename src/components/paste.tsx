@@ -0,0 +1,187 @@
+import { Action, ActionPanel, Clipboard, Form, Icon, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { recordUse } from "../lib/frecency";
+import { ClipboardEntry } from "../lib/storage";
+import { pasteTemplate, templateFields } from "../lib/templates";
+import {
+  deletePreset,
+  loadPresets,
+  parseSeparator,
+  PastePreset,
+  savePreset,
+  TransformId,
+  TRANSFORMS,
+  transformTexts,
+} from "../lib/transforms";
+
+function TemplateForm({ template, fields, entryId }: { template: string; fields: string[]; entryId?: string }) {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle="Fill In Template"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Paste"
+            icon={Icon.Clipboard}
+            onSubmit={async (values: Record<string, string>) => {
+              await pasteTemplate(template, values);
+              if (entryId) await recordUse([entryId]);
+              pop();
+              await showToast({ style: Toast.Style.Success, title: "Pasted" });
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      {fields.map((field, i) => (
+        <Form.TextField key={field} id={field} title={field} autoFocus={i === 0} />
+      ))}
+      <Form.Description title="Template" text={template} />
+    </Form>
+  );
+}
+
+// Templates with custom placeholders ask for their values first; built-ins like {date} are filled in automatically
+export function PasteAction({ content, entryId }: { content: string; entryId?: string }) {
+  const { push } = useNavigation();
+  return (
+    <Action
+      title="Paste"
+      icon={Icon.Clipboard}
+      onAction={async () => {
+        const fields = templateFields(content);
+        if (fields.length > 0) {
+          push(<TemplateForm template={content} fields={fields} entryId={entryId} />);
+          return;
+        }
+        await pasteTemplate(content);
+        if (entryId) await recordUse([entryId]);
+        await showToast({ style: Toast.Style.Success, title: "Pasted" });
+      }}
+    />
+  );
+}
+
+function PasteAsForm({ entries }: { entries: ClipboardEntry[] }) {
+  const { pop } = useNavigation();
+  const texts = entries.map((e) => e.content);
+  return (
+    <Form
+      navigationTitle="Paste as"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Paste"
+            icon={Icon.Clipboard}
+            onSubmit={async (values: { transforms: TransformId[]; separator?: string; presetName: string }) => {
+              // The separator field is only shown when pasting several items
+              const separator = values.separator ?? "\\n";
+              await Clipboard.paste(transformTexts(texts, values.transforms, parseSeparator(separator)));
+              await recordUse(entries.map((e) => e.id));
+              if (values.presetName.trim()) {
+                await savePreset(values.presetName.trim(), values.transforms, separator);
+              }
+              pop();
+              await showToast({ style: Toast.Style.Success, title: "Pasted" });
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker id="transforms" title="Transforms" info="Applied in the order they're picked">
+        {TRANSFORMS.map((t) => (
+          <Form.TagPicker.Item key={t.id} value={t.id} title={t.title} />
+        ))}
+      </Form.TagPicker>
+      {texts.length > 1 && (
+        <Form.TextField
+          id="separator"
+          title="Separator"
+          defaultValue="\n"
+          info="Use \n for a new line, \t for a tab and \\ for a backslash"
+        />
+      )}
+      <Form.Separator />
+      <Form.TextField id="presetName" title="Save as Preset" placeholder="Optional name, e.g. Slack Quote" />
+    </Form>
+  );
+}
+
+function PastePresetsView() {
+  const [presets, setPresets] = useState<PastePreset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadPresets().then((loaded) => {
+      setPresets(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Paste Presets">
+      <List.EmptyView title="No presets yet" description="Save one from Paste as › Custom" icon={Icon.Wand} />
+      {presets.map((preset) => (
+        <List.Item
+          key={preset.id}
+          title={preset.name}
+          subtitle={preset.transforms.map((id) => TRANSFORMS.find((t) => t.id === id)?.title ?? id).join(" → ")}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Delete Preset"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                onAction={async () => {
+                  await deletePreset(preset.id);
+                  setPresets((prev) => prev.filter((p) => p.id !== preset.id));
+                }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/** The saved paste presets, loaded once by a view and handed to each `PasteAsSubmenu` in it. */
+export function usePresets(): PastePreset[] {
+  const [presets, setPresets] = useState<PastePreset[]>([]);
+
+  useEffect(() => {
+    loadPresets().then(setPresets);
+  }, []);
+
+  return presets;
+}
+
+export function PasteAsSubmenu({ entries, presets }: { entries: ClipboardEntry[]; presets: PastePreset[] }) {
+  const { push } = useNavigation();
+
+  async function paste(transforms: TransformId[], separator = "\n") {
+    const texts = entries.map((e) => e.content);
+    await Clipboard.paste(transformTexts(texts, transforms, parseSeparator(separator)));
+    await recordUse(entries.map((e) => e.id));
+    await showToast({ style: Toast.Style.Success, title: "Pasted" });
+  }
+
+  return (
+    <ActionPanel.Submenu title="Paste as" icon={Icon.Wand} shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}>
+      {presets.map((preset) => (
+        <Action
+          key={preset.id}
+          title={preset.name}
+          icon={Icon.Star}
+          onAction={() => paste(preset.transforms, preset.separator)}
+        />
+      ))}
+      {TRANSFORMS.map((t) => (
+        <Action key={t.id} title={t.title} onAction={() => paste([t.id])} />
+      ))}
+      <Action title="Custom" icon={Icon.Pencil} onAction={() => push(<PasteAsForm entries={entries} />)} />
+      <Action title="Manage Presets" icon={Icon.Gear} onAction={() => push(<PastePresetsView />)} />
+    </ActionPanel.Submenu>
+  );
+}
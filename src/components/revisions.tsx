@@ -0,0 +1,150 @@
+import { Action, ActionPanel, Form, Icon, List, useNavigation } from "@raycast/api";
+import { perform } from "../lib/actions";
+import { diffMarkdown, displayText, truncate } from "../lib/format";
+import { reviseEntry } from "../lib/revisions";
+import { maskContent } from "../lib/sensitive";
+import { ClipboardEntry } from "../lib/storage";
+import { useStore } from "./use-store";
+
+// The entry as it's stored now, wherever it is, so the views follow edits made while they're open
+function useLiveEntry(entry: ClipboardEntry): ClipboardEntry {
+  const data = useStore();
+  const all = data
+    ? [...data.history, ...data.buckets.flatMap((b) => b.items), ...data.trash.entries.map((t) => t.entry)]
+    : [];
+  return all.find((e) => e.id === entry.id) ?? entry;
+}
+
+function EditEntryForm({ entry: initialEntry }: { entry: ClipboardEntry }) {
+  const { pop } = useNavigation();
+  const entry = useLiveEntry(initialEntry);
+
+  return (
+    <Form
+      navigationTitle="Edit Entry"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Entry"
+            icon={Icon.Check}
+            onSubmit={async (values: { content: string }) => {
+              if (values.content !== entry.content) await perform("Edited entry", [reviseEntry(entry, values.content)]);
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea id="content" title="Content" defaultValue={entry.content} enableMarkdown={false} />
+    </Form>
+  );
+}
+
+// Only what's shown for the entry; its content, and so what gets pasted, is left alone
+function DescribeEntryForm({ entry: initialEntry }: { entry: ClipboardEntry }) {
+  const { pop } = useNavigation();
+  const entry = useLiveEntry(initialEntry);
+
+  return (
+    <Form
+      navigationTitle="Edit Title and Note"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save"
+            icon={Icon.Check}
+            onSubmit={async (values: { title: string; note: string }) => {
+              const title = values.title.trim() || undefined;
+              const note = values.note.trim() || undefined;
+              if (title !== entry.title || note !== entry.note)
+                await perform(title || note ? "Updated title and note" : "Cleared title and note", [
+                  { type: "entry", entry, update: { title, note } },
+                ]);
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="title"
+        title="Title"
+        placeholder={truncate(displayText(entry), 40)}
+        info="Shown instead of the content when the entry is listed"
+        defaultValue={entry.title}
+        autoFocus
+      />
+      <Form.TextArea id="note" title="Note" defaultValue={entry.note} enableMarkdown />
+    </Form>
+  );
+}
+
+/** Earlier versions of an entry, each previewed as a diff against the current text. */
+function RevisionsView({ entry: initialEntry }: { entry: ClipboardEntry }) {
+  const entry = useLiveEntry(initialEntry);
+  // Secrets stay masked here too, so a diff can't give them away
+  const shown = (content: string) => (entry.sensitive ? maskContent(content, entry.sensitive) : content);
+
+  return (
+    <List navigationTitle="Revisions" isShowingDetail>
+      <List.EmptyView title="No Earlier Versions" icon={Icon.Clock} />
+      {entry.revisions?.map((revision, i) => (
+        <List.Item
+          key={`${revision.editedAt}-${i}`}
+          icon={Icon.Clock}
+          title={truncate(shown(revision.content), 40)}
+          accessories={[{ date: new Date(revision.editedAt), tooltip: new Date(revision.editedAt).toLocaleString() }]}
+          detail={
+            <List.Item.Detail
+              markdown={`**Changes since this version**\n\n${diffMarkdown(shown(revision.content), shown(entry.content))}`}
+            />
+          }
+          actions={
+            <ActionPanel>
+              <Action
+                title="Restore This Version"
+                icon={Icon.ArrowCounterClockwise}
+                onAction={() =>
+                  perform(`Restored version from ${new Date(revision.editedAt).toLocaleString()}`, [
+                    reviseEntry(entry, revision.content),
+                  ])
+                }
+              />
+              <Action.CopyToClipboard content={revision.content} concealed={!!entry.sensitive} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/** Editing an entry's text in place, and going back to what it said before. */
+export function EditActions({ entry }: { entry: ClipboardEntry }) {
+  const { push } = useNavigation();
+
+  return (
+    <>
+      <Action
+        title="Edit Entry"
+        icon={Icon.Pencil}
+        shortcut={{ modifiers: ["cmd"], key: "e" }}
+        onAction={() => push(<EditEntryForm entry={entry} />)}
+      />
+      <Action
+        title="Edit Title and Note"
+        icon={Icon.Text}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+        onAction={() => push(<DescribeEntryForm entry={entry} />)}
+      />
+      {!!entry.revisions?.length && (
+        <Action
+          title="Show Revisions"
+          icon={Icon.Clock}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+          onAction={() => push(<RevisionsView entry={entry} />)}
+        />
+      )}
+    </>
+  );
+}
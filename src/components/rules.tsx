@@ -0,0 +1,373 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Form,
+  Icon,
+  List,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { randomUUID } from "crypto";
+import { useEffect, useState } from "react";
+import { perform } from "../lib/actions";
+import { breadcrumb } from "../lib/bucket-tree";
+import { contentIcon, CONTENT_TYPES, ContentType } from "../lib/content-type";
+import { entryLabel, truncate } from "../lib/format";
+import {
+  loadRules,
+  patternError,
+  planRules,
+  Rule,
+  RULE_ACTIONS,
+  RuleAction,
+  RuleOutcome,
+  saveRules,
+} from "../lib/rules";
+import { Bucket } from "../lib/storage";
+import { normalizeTag } from "../lib/tags";
+import { useStore } from "./use-store";
+
+interface RuleFormValues {
+  name: string;
+  pattern: string;
+  contentType: string;
+  app: string;
+  minLength: string;
+  maxLength: string;
+  action: RuleAction["type"];
+  bucketId?: string;
+  tag?: string;
+  minutes?: string;
+}
+
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+const isCount = (value: number | undefined) => value === undefined || (Number.isInteger(value) && value >= 0);
+
+function describeAction(action: RuleAction, buckets: Bucket[]): string {
+  switch (action.type) {
+    case "file":
+      return buckets.some((b) => b.id === action.bucketId)
+        ? `File into "${breadcrumb(buckets, action.bucketId)}"`
+        : "File into a deleted bucket";
+    case "tag":
+      return `Tag "${action.tag}"`;
+    case "skip":
+      return "Don't save";
+    case "expire":
+      return `Delete after ${action.minutes} min`;
+  }
+}
+
+function describeOutcome(outcome: RuleOutcome, buckets: Bucket[]): string[] {
+  return [
+    outcome.skip && "Trash",
+    outcome.bucketId && `→ ${breadcrumb(buckets, outcome.bucketId)}`,
+    ...outcome.tags.map((tag) => `#${tag}`),
+    outcome.expiresAt && `Expires ${new Date(outcome.expiresAt).toLocaleString()}`,
+  ].filter((text): text is string => !!text);
+}
+
+function ruleAccessories({ conditions }: Rule): List.Item.Accessory[] {
+  const accessories: List.Item.Accessory[] = [];
+  if (conditions.pattern) accessories.push({ tag: `/${conditions.pattern}/` });
+  if (conditions.contentType) accessories.push({ tag: CONTENT_TYPES[conditions.contentType].title });
+  if (conditions.app) accessories.push({ text: conditions.app, icon: Icon.AppWindow });
+  return accessories;
+}
+
+function RuleForm({ rule, onSubmit }: { rule?: Rule; onSubmit: (rule: Rule) => void }) {
+  const { pop } = useNavigation();
+  const data = useStore();
+  const buckets = data?.buckets ?? [];
+  const [action, setAction] = useState<RuleAction["type"]>(rule?.action.type ?? "file");
+  const [patternProblem, setPatternProblem] = useState<string>();
+  const conditions = rule?.conditions ?? {};
+
+  async function submit(values: RuleFormValues) {
+    const minLength = optionalNumber(values.minLength);
+    const maxLength = optionalNumber(values.maxLength);
+    const minutes = Number(values.minutes);
+    const problem =
+      (!values.name.trim() && "Give the rule a name") ||
+      (values.pattern && patternError(values.pattern) && "The pattern isn't a valid regular expression") ||
+      ((!isCount(minLength) || !isCount(maxLength)) && "Lengths must be whole numbers") ||
+      (action === "file" && !values.bucketId && "Pick a bucket") ||
+      (action === "tag" && !normalizeTag(values.tag ?? "") && "Enter a tag") ||
+      (action === "expire" && !(minutes > 0) && "Enter how many minutes to keep entries");
+    if (problem) {
+      await showToast({ style: Toast.Style.Failure, title: problem });
+      return;
+    }
+
+    const actions: Record<RuleAction["type"], () => RuleAction> = {
+      file: () => ({ type: "file", bucketId: values.bucketId ?? "" }),
+      tag: () => ({ type: "tag", tag: normalizeTag(values.tag ?? "") }),
+      skip: () => ({ type: "skip" }),
+      expire: () => ({ type: "expire", minutes }),
+    };
+    onSubmit({
+      id: rule?.id ?? randomUUID(),
+      name: values.name.trim(),
+      enabled: rule?.enabled ?? true,
+      conditions: {
+        pattern: values.pattern || undefined,
+        contentType: (values.contentType || undefined) as ContentType | undefined,
+        app: values.app.trim() || undefined,
+        minLength,
+        maxLength,
+      },
+      action: actions[action](),
+    });
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={rule ? `Edit "${rule.name}"` : "New Rule"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Rule" onSubmit={submit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="name" title="Name" placeholder="e.g. GitHub links" defaultValue={rule?.name} autoFocus />
+      <Form.Separator />
+      <Form.Description text="Entries have to match every condition that's filled in." />
+      <Form.TextField
+        id="pattern"
+        title="Content Matches"
+        placeholder="Regular expression, e.g. github\.com/"
+        info="Case-insensitive"
+        defaultValue={conditions.pattern}
+        error={patternProblem}
+        onChange={(value) => setPatternProblem(value ? patternError(value) : undefined)}
+      />
+      <Form.Dropdown id="contentType" title="Content Type" defaultValue={conditions.contentType ?? ""}>
+        <Form.Dropdown.Item value="" title="Any" />
+        {(Object.keys(CONTENT_TYPES) as ContentType[]).map((type) => (
+          <Form.Dropdown.Item
+            key={type}
+            value={type}
+            title={CONTENT_TYPES[type].title}
+            icon={CONTENT_TYPES[type].icon}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField id="app" title="Copied From" placeholder="App name, e.g. Safari" defaultValue={conditions.app} />
+      <Form.TextField
+        id="minLength"
+        title="Minimum Length"
+        placeholder="Characters"
+        defaultValue={conditions.minLength?.toString()}
+      />
+      <Form.TextField
+        id="maxLength"
+        title="Maximum Length"
+        placeholder="Characters"
+        defaultValue={conditions.maxLength?.toString()}
+      />
+      <Form.Separator />
+      <Form.Dropdown
+        id="action"
+        title="Then"
+        value={action}
+        onChange={(value) => setAction(value as RuleAction["type"])}
+      >
+        {RULE_ACTIONS.map((a) => (
+          <Form.Dropdown.Item key={a.type} value={a.type} title={a.title} />
+        ))}
+      </Form.Dropdown>
+      {action === "file" && (
+        // Keyed so the rule's bucket is selected once the buckets have loaded, rather than the first one
+        <Form.Dropdown
+          key={String(!!data)}
+          id="bucketId"
+          title="Bucket"
+          defaultValue={rule?.action.type === "file" ? rule.action.bucketId : undefined}
+        >
+          {buckets.map((b) => (
+            <Form.Dropdown.Item
+              key={b.id}
+              value={b.id}
+              title={breadcrumb(buckets, b.id)}
+              icon={{ source: b.icon, tintColor: b.color }}
+            />
+          ))}
+        </Form.Dropdown>
+      )}
+      {action === "tag" && (
+        <Form.TextField id="tag" title="Tag" defaultValue={rule?.action.type === "tag" ? rule.action.tag : undefined} />
+      )}
+      {action === "expire" && (
+        <Form.TextField
+          id="minutes"
+          title="Keep For"
+          info="Minutes"
+          defaultValue={rule?.action.type === "expire" ? String(rule.action.minutes) : "60"}
+        />
+      )}
+    </Form>
+  );
+}
+
+/** Shows what the rules would do to entries that are already stored, and applies it on request. */
+export function RulePreviewView() {
+  const { pop } = useNavigation();
+  const data = useStore();
+  const buckets = data?.buckets ?? [];
+  const [rules, setRules] = useState<Rule[]>();
+
+  useEffect(() => {
+    loadRules().then(setRules);
+  }, []);
+
+  // A rule pointing at a deleted bucket would only shuffle entries around history
+  const usable = rules?.filter(({ action }) => action.type !== "file" || buckets.some((b) => b.id === action.bucketId));
+  const bucketed = new Set(buckets.flatMap((b) => b.items.map((e) => e.id)));
+  const { changes, edits } = planRules(usable ?? [], data?.history.filter((e) => !bucketed.has(e.id)) ?? []);
+
+  return (
+    <List isLoading={!rules || !data} navigationTitle="Apply Rules">
+      <List.EmptyView
+        icon={Icon.CheckCircle}
+        title="Nothing to change"
+        description={rules?.length === 0 ? "Add a rule first" : "No entry matches an enabled rule"}
+      />
+      <List.Section title="Will Change" subtitle={String(changes.length)}>
+        {changes.map(({ entry, outcome }) => (
+          <List.Item
+            key={entry.id}
+            icon={contentIcon(entry.contentType, entry.content)}
+            title={truncate(entryLabel(entry))}
+            subtitle={outcome.rules.map((r) => r.name).join(", ")}
+            accessories={describeOutcome(outcome, buckets).map((text) => ({ tag: text }))}
+            actions={
+              <ActionPanel>
+                <Action
+                  title={`Apply to ${changes.length} Entries`}
+                  icon={Icon.Wand}
+                  onAction={async () => {
+                    await perform(`Applied rules to ${changes.length} entries`, edits);
+                    pop();
+                  }}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export function RulesView() {
+  const { push } = useNavigation();
+  const buckets = useStore()?.buckets ?? [];
+  const [rules, setRules] = useState<Rule[]>();
+
+  useEffect(() => {
+    loadRules().then(setRules);
+  }, []);
+
+  async function update(updated: Rule[]) {
+    setRules(updated);
+    await saveRules(updated);
+  }
+
+  function upsert(rule: Rule) {
+    const existing = rules?.some((r) => r.id === rule.id);
+    return update(existing ? (rules ?? []).map((r) => (r.id === rule.id ? rule : r)) : [...(rules ?? []), rule]);
+  }
+
+  // Rules run top to bottom, so order decides which one files an entry
+  function move(index: number, direction: -1 | 1) {
+    const updated = [...(rules ?? [])];
+    [updated[index], updated[index + direction]] = [updated[index + direction], updated[index]];
+    return update(updated);
+  }
+
+  const newRuleAction = (
+    <Action
+      title="New Rule"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      onAction={() => push(<RuleForm onSubmit={upsert} />)}
+    />
+  );
+  const previewAction = (
+    <Action
+      title="Apply Rules to Everything Else"
+      icon={Icon.Wand}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+      onAction={() => push(<RulePreviewView />)}
+    />
+  );
+
+  return (
+    <List isLoading={!rules} navigationTitle="Bucketing Rules">
+      <List.EmptyView
+        icon={Icon.Wand}
+        title="No rules yet"
+        description="Rules file, tag, skip or expire new copies automatically"
+        actions={<ActionPanel>{newRuleAction}</ActionPanel>}
+      />
+      {rules?.map((rule, i) => (
+        <List.Item
+          key={rule.id}
+          icon={rule.enabled ? Icon.CheckCircle : Icon.Circle}
+          title={rule.name}
+          subtitle={describeAction(rule.action, buckets)}
+          accessories={ruleAccessories(rule)}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Edit Rule"
+                icon={Icon.Pencil}
+                onAction={() => push(<RuleForm rule={rule} onSubmit={upsert} />)}
+              />
+              <Action
+                title={rule.enabled ? "Disable Rule" : "Enable Rule"}
+                icon={rule.enabled ? Icon.Circle : Icon.CheckCircle}
+                onAction={() => upsert({ ...rule, enabled: !rule.enabled })}
+              />
+              {newRuleAction}
+              {previewAction}
+              {i > 0 && (
+                <Action
+                  title="Move Upward"
+                  icon={Icon.ArrowUp}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                  onAction={() => move(i, -1)}
+                />
+              )}
+              {i < rules.length - 1 && (
+                <Action
+                  title="Move Downward"
+                  icon={Icon.ArrowDown}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                  onAction={() => move(i, 1)}
+                />
+              )}
+              <Action
+                title="Delete Rule"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                onAction={async () => {
+                  const confirmed = await confirmAlert({
+                    title: `Delete "${rule.name}"?`,
+                    primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+                  });
+                  if (confirmed) await update(rules.filter((r) => r.id !== rule.id));
+                }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
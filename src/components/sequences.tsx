@@ -0,0 +1,329 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Form,
+  Icon,
+  List,
+  showHUD,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { randomUUID } from "crypto";
+import { useEffect, useState } from "react";
+import { contentIcon } from "../lib/content-type";
+import { entryLabel, truncate } from "../lib/format";
+import { recordUse } from "../lib/frecency";
+import {
+  loadPasteStack,
+  loadSequences,
+  PasteStack,
+  resolveSequence,
+  savePasteStack,
+  saveSequences,
+  SEPARATORS,
+  Sequence,
+} from "../lib/sequences";
+import { isLocked } from "../lib/bucket-locks";
+import { ClipboardEntry } from "../lib/storage";
+import { pasteTemplate } from "../lib/templates";
+import { parseSeparator } from "../lib/transforms";
+import { useStore } from "./use-store";
+
+const count = (n: number) => `${n} item${n !== 1 ? "s" : ""}`;
+
+// Everything a sequence can refer to. Entries in locked buckets are left out until the bucket is unlocked.
+function useEntries(): ClipboardEntry[] | undefined {
+  const data = useStore();
+  return data && [...data.history, ...data.buckets.filter((b) => !isLocked(b)).flatMap((b) => b.items)];
+}
+
+/**
+ * Pastes entries as one template, like Paste Next pastes each entry, so built-ins such as {date} and {cursor} are
+ * filled in. Selections are pasted this way too.
+ */
+export async function pasteJoined(entries: ClipboardEntry[], separator: string) {
+  await pasteTemplate(entries.map((e) => e.content).join(separator));
+  await recordUse(entries.map((e) => e.id));
+  await showToast({ style: Toast.Style.Success, title: `Pasted ${count(entries.length)}` });
+}
+
+async function startPasteStack(entries: ClipboardEntry[]) {
+  await savePasteStack({ entryIds: entries.map((e) => e.id), next: 0 });
+  await showHUD(`Paste stack ready with ${count(entries.length)}. Run Paste Next for each one`);
+}
+
+function SeparatorForm({ onSubmit }: { onSubmit: (separator: string) => void }) {
+  return (
+    <Form
+      navigationTitle="Custom Separator"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Paste"
+            icon={Icon.Clipboard}
+            onSubmit={(values: { separator: string }) => onSubmit(parseSeparator(values.separator))}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="separator"
+        title="Separator"
+        placeholder="e.g. ; or \n---\n"
+        info="\n is a newline, \t a tab and \\ a backslash"
+      />
+    </Form>
+  );
+}
+
+function SequenceNameForm({ initialName, onSubmit }: { initialName?: string; onSubmit: (name: string) => void }) {
+  const [error, setError] = useState<string>();
+
+  return (
+    <Form
+      navigationTitle="Save Sequence"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Sequence"
+            icon={Icon.SaveDocument}
+            onSubmit={(values: { name: string }) =>
+              values.name.trim() ? onSubmit(values.name.trim()) : setError("Name is required")
+            }
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        defaultValue={initialName}
+        error={error}
+        onChange={() => setError(undefined)}
+      />
+    </Form>
+  );
+}
+
+/** Paste-all actions, one per separator. */
+function PasteAllActions({ entries }: { entries: ClipboardEntry[] }) {
+  const { push, pop } = useNavigation();
+
+  return (
+    <>
+      <Action
+        title={`Paste ${count(entries.length)}`}
+        icon={Icon.Clipboard}
+        onAction={() => pasteJoined(entries, "\n")}
+      />
+      <ActionPanel.Submenu title="Paste with Separator" icon={Icon.Text}>
+        {Object.entries(SEPARATORS).map(([key, { title, text }]) => (
+          <Action key={key} title={title} onAction={() => pasteJoined(entries, text)} />
+        ))}
+        <Action
+          title="Custom…"
+          onAction={() =>
+            push(
+              <SeparatorForm
+                onSubmit={async (separator) => {
+                  pop();
+                  await pasteJoined(entries, separator);
+                }}
+              />,
+            )
+          }
+        />
+      </ActionPanel.Submenu>
+      <Action
+        title="Start Paste Stack"
+        icon={Icon.Layers}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
+        onAction={() => startPasteStack(entries)}
+      />
+    </>
+  );
+}
+
+/**
+ * Puts entries in the order they should be pasted. Opened from selection mode, or on a saved sequence, in which
+ * case saving updates it rather than adding another.
+ */
+export function SequenceView({
+  entryIds,
+  sequence,
+  onSave,
+}: {
+  entryIds: string[];
+  sequence?: Sequence;
+  onSave?: (sequence: Sequence) => Promise<void>;
+}) {
+  const { push, pop } = useNavigation();
+  const all = useEntries();
+  const [order, setOrder] = useState(entryIds);
+  const entries = resolveSequence(order, all ?? []);
+
+  function move(index: number, direction: -1 | 1) {
+    const updated = entries.map((e) => e.id);
+    [updated[index], updated[index + direction]] = [updated[index + direction], updated[index]];
+    setOrder(updated);
+  }
+
+  async function save(name: string) {
+    const saved = { id: sequence?.id ?? randomUUID(), name, entryIds: entries.map((e) => e.id) };
+    if (onSave) await onSave(saved);
+    else await saveSequences([...(await loadSequences()), saved]);
+    await showToast({ style: Toast.Style.Success, title: `Saved "${name}"` });
+  }
+
+  return (
+    <List navigationTitle={sequence?.name ?? "Arrange Selection"} isLoading={!all}>
+      <List.EmptyView title="Nothing to Paste" description="The entries in this sequence have been deleted" />
+      {entries.map((entry, i) => (
+        <List.Item
+          key={entry.id}
+          icon={contentIcon(entry.contentType, entry.content)}
+          title={`${i + 1}. ${truncate(entryLabel(entry))}`}
+          actions={
+            <ActionPanel>
+              <PasteAllActions entries={entries} />
+              {i > 0 && (
+                <Action
+                  title="Move Upward"
+                  icon={Icon.ArrowUp}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                  onAction={() => move(i, -1)}
+                />
+              )}
+              {i < entries.length - 1 && (
+                <Action
+                  title="Move Downward"
+                  icon={Icon.ArrowDown}
+                  shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                  onAction={() => move(i, 1)}
+                />
+              )}
+              <Action
+                title="Remove from Sequence"
+                icon={Icon.MinusCircle}
+                shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                onAction={() => setOrder(entries.filter((e) => e.id !== entry.id).map((e) => e.id))}
+              />
+              <Action
+                title={sequence ? "Save Sequence" : "Save as Sequence"}
+                icon={Icon.SaveDocument}
+                shortcut={{ modifiers: ["cmd"], key: "s" }}
+                onAction={() =>
+                  push(
+                    <SequenceNameForm
+                      initialName={sequence?.name}
+                      onSubmit={async (name) => {
+                        pop();
+                        await save(name);
+                      }}
+                    />,
+                  )
+                }
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/** Saved sequences, and the progress of the paste stack if one is running. */
+export function SequencesView() {
+  const { push } = useNavigation();
+  const all = useEntries();
+  const [sequences, setSequences] = useState<Sequence[]>();
+  const [stack, setStack] = useState<PasteStack>();
+
+  useEffect(() => {
+    loadSequences().then(setSequences);
+    loadPasteStack().then(setStack);
+  }, []);
+
+  async function update(updated: Sequence[]) {
+    setSequences(updated);
+    await saveSequences(updated);
+  }
+
+  function upsert(sequence: Sequence) {
+    return update((sequences ?? []).map((s) => (s.id === sequence.id ? sequence : s)));
+  }
+
+  async function remove(sequence: Sequence) {
+    const confirmed = await confirmAlert({
+      title: `Delete "${sequence.name}"?`,
+      message: "The entries themselves are kept.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) await update((sequences ?? []).filter((s) => s.id !== sequence.id));
+  }
+
+  return (
+    <List navigationTitle="Sequences" isLoading={!sequences || !all}>
+      <List.EmptyView
+        icon={Icon.List}
+        title="No Sequences"
+        description="Select entries in selection mode, arrange them and save them as a sequence"
+      />
+      {stack && (
+        <List.Section title="Paste Stack">
+          <List.Item
+            icon={Icon.Layers}
+            title={`${stack.next} of ${count(stack.entryIds.length)} pasted`}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Clear Paste Stack"
+                  icon={Icon.XMarkCircle}
+                  onAction={async () => {
+                    await savePasteStack(undefined);
+                    setStack(undefined);
+                  }}
+                />
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+      <List.Section title="Saved">
+        {sequences?.map((sequence) => {
+          const entries = resolveSequence(sequence.entryIds, all ?? []);
+          return (
+            <List.Item
+              key={sequence.id}
+              icon={Icon.List}
+              title={sequence.name}
+              subtitle={count(entries.length)}
+              actions={
+                <ActionPanel>
+                  <Action
+                    title="Open Sequence"
+                    icon={Icon.ArrowRight}
+                    onAction={() =>
+                      push(<SequenceView entryIds={sequence.entryIds} sequence={sequence} onSave={upsert} />)
+                    }
+                  />
+                  <PasteAllActions entries={entries} />
+                  <Action
+                    title="Delete Sequence"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                    onAction={() => remove(sequence)}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
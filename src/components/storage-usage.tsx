@@ -0,0 +1,110 @@
+import { Action, ActionPanel, Alert, Color, confirmAlert, Icon, List, openExtensionPreferences } from "@raycast/api";
+import { perform } from "../lib/actions";
+import { breadcrumb } from "../lib/bucket-tree";
+import { formatBytes } from "../lib/format";
+import { entryBytes, findViolations, retentionPolicy, VIOLATIONS } from "../lib/retention";
+import { ClipboardEntry } from "../lib/storage";
+import { useStore } from "./use-store";
+
+const sum = (entries: ClipboardEntry[]) => entries.reduce((total, entry) => total + entryBytes(entry), 0);
+const count = (n: number) => `${n} entr${n !== 1 ? "ies" : "y"}`;
+
+/** How much each part of the data takes up, and a way to clear out history that's over the retention limits. */
+export function StorageUsageView() {
+  const data = useStore();
+  const policy = retentionPolicy();
+  const buckets = data?.buckets ?? [];
+  const history = data?.history ?? [];
+  const trashed = data?.trash.entries.map((t) => t.entry) ?? [];
+
+  const violations = findViolations(history, buckets, policy);
+  const offending = history.filter((e) => violations.has(e.id));
+  const byReason = Object.entries(VIOLATIONS).flatMap(([reason, title]) => {
+    const n = offending.filter((e) => violations.get(e.id) === reason).length;
+    return n > 0 ? [{ tag: `${title}: ${n}` }] : [];
+  });
+
+  async function cleanUp() {
+    const confirmed = await confirmAlert({
+      title: `Delete ${count(offending.length)}?`,
+      message: `Frees about ${formatBytes(sum(offending))}. Entries in buckets and pinned entries are kept. This can't be undone.`,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await perform(
+      `Cleaned up ${count(offending.length)}`,
+      offending.map((entry) => ({ type: "entry", entry, place: null })),
+    );
+  }
+
+  const preferencesAction = (
+    <Action title="Change Retention Limits" icon={Icon.Gear} onAction={openExtensionPreferences} />
+  );
+  const limits: { title: string; value?: string }[] = [
+    { title: "Entries", value: policy.maxEntries?.toString() },
+    { title: "Age", value: policy.maxAgeDays ? `${policy.maxAgeDays} days` : undefined },
+    { title: "Total Size", value: policy.maxTotalBytes ? formatBytes(policy.maxTotalBytes) : undefined },
+    { title: "Largest Entry", value: policy.maxEntryBytes ? formatBytes(policy.maxEntryBytes) : undefined },
+  ];
+
+  return (
+    <List isLoading={!data} navigationTitle="Storage Usage">
+      {offending.length > 0 && (
+        <List.Section title="Cleanup">
+          <List.Item
+            icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+            title={`${count(offending.length)} over the limits`}
+            subtitle={formatBytes(sum(offending))}
+            accessories={byReason}
+            actions={
+              <ActionPanel>
+                <Action title="Clean up" icon={Icon.Trash} style={Action.Style.Destructive} onAction={cleanUp} />
+                {preferencesAction}
+              </ActionPanel>
+            }
+          />
+        </List.Section>
+      )}
+      <List.Section
+        title="Usage"
+        subtitle={formatBytes(sum([...history, ...buckets.flatMap((b) => b.items), ...trashed]))}
+      >
+        <List.Item
+          icon={Icon.Clock}
+          title="History"
+          subtitle={count(history.length)}
+          accessories={[{ text: formatBytes(sum(history)) }]}
+          actions={<ActionPanel>{preferencesAction}</ActionPanel>}
+        />
+        {buckets.map((bucket) => (
+          <List.Item
+            key={bucket.id}
+            icon={{ source: bucket.icon, tintColor: bucket.color }}
+            title={breadcrumb(buckets, bucket.id)}
+            subtitle={count(bucket.items.length)}
+            accessories={[{ text: formatBytes(sum(bucket.items)) }]}
+            actions={<ActionPanel>{preferencesAction}</ActionPanel>}
+          />
+        ))}
+        <List.Item
+          icon={Icon.Trash}
+          title="Trash"
+          subtitle={count(trashed.length)}
+          accessories={[{ text: formatBytes(sum(trashed)) }]}
+          actions={<ActionPanel>{preferencesAction}</ActionPanel>}
+        />
+      </List.Section>
+      <List.Section title="Retention Limits">
+        {limits.map(({ title, value }) => (
+          <List.Item
+            key={title}
+            icon={Icon.Gauge}
+            title={title}
+            accessories={[{ text: value ?? "No limit" }]}
+            actions={<ActionPanel>{preferencesAction}</ActionPanel>}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
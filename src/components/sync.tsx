@@ -0,0 +1,51 @@
+import { Action, ActionPanel, Icon, List, showToast, Toast } from "@raycast/api";
+import { useState } from "react";
+import { diffMarkdown, truncate } from "../lib/format";
+import { resolveConflict, SyncConflict } from "../lib/sync";
+
+const REMOVED = "_Removed_";
+
+function conflictMarkdown({ mine, theirs }: SyncConflict): string {
+  if (mine === undefined) return `**Yours:** ${REMOVED}\n\n**Theirs:**\n\n${diffMarkdown("", theirs ?? "")}`;
+  if (theirs === undefined) return `**Yours:**\n\n${diffMarkdown("", mine)}\n\n**Theirs:** ${REMOVED}`;
+  return `**Their changes to your version**\n\n${diffMarkdown(mine, theirs)}`;
+}
+
+/** Items changed differently here and in the sync folder, to pick a side for each. */
+export function SyncConflictsView({ conflicts: initialConflicts }: { conflicts: SyncConflict[] }) {
+  const [conflicts, setConflicts] = useState(initialConflicts);
+
+  async function resolve(conflict: SyncConflict, keep: "mine" | "theirs") {
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Syncing" });
+    try {
+      setConflicts(await resolveConflict(conflict, keep));
+      toast.style = Toast.Style.Success;
+      toast.title = keep === "mine" ? "Kept your version" : "Took their version";
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Sync failed";
+      toast.message = String(error);
+    }
+  }
+
+  return (
+    <List navigationTitle="Sync Conflicts" isShowingDetail>
+      <List.EmptyView icon={Icon.CheckCircle} title="No Conflicts" description="Everything is in sync" />
+      {conflicts.map((conflict) => (
+        <List.Item
+          key={`${conflict.bucketId}-${conflict.itemId}`}
+          icon={Icon.Warning}
+          title={truncate(conflict.mine ?? conflict.theirs ?? "", 40)}
+          accessories={[{ tag: conflict.bucketName }]}
+          detail={<List.Item.Detail markdown={conflictMarkdown(conflict)} />}
+          actions={
+            <ActionPanel>
+              <Action title="Keep Mine" icon={Icon.Person} onAction={() => resolve(conflict, "mine")} />
+              <Action title="Keep Theirs" icon={Icon.TwoPeople} onAction={() => resolve(conflict, "theirs")} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,80 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { perform } from "../lib/actions";
+import { ClipboardEntry } from "../lib/storage";
+import { allTags, parseTags, tagEdits } from "../lib/tags";
+import { useStore } from "./use-store";
+
+const plural = (count: number) => (count === 1 ? "1 entry" : `${count} entries`);
+
+/**
+ * Edits the tags of one or more entries. Tags every entry already shares start selected; unselecting one removes it
+ * from all of them, and tags only some of them have are left alone.
+ */
+function TagForm({ entries }: { entries: ClipboardEntry[] }) {
+  const { pop } = useNavigation();
+  const data = useStore();
+  const known = data ? allTags(data.history, data.buckets) : [];
+  const shared = known.filter((tag) => entries.every((e) => e.tags?.includes(tag)));
+
+  return (
+    <Form
+      navigationTitle={entries.length > 1 ? `Tag ${entries.length} Entries` : "Edit Tags"}
+      isLoading={!data}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Tags"
+            icon={Icon.Tag}
+            onSubmit={async (values: { tags: string[]; newTags: string }) => {
+              const add = [...values.tags, ...parseTags(values.newTags)];
+              const remove = shared.filter((tag) => !values.tags.includes(tag));
+              const edits = tagEdits(entries, add, remove);
+              if (edits.length > 0) await perform(`Updated tags on ${plural(edits.length)}`, edits);
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      {/* Keyed so the defaults apply once the known tags have loaded */}
+      <Form.TagPicker key={String(!!data)} id="tags" title="Tags" defaultValue={shared}>
+        {known.map((tag) => (
+          <Form.TagPicker.Item key={tag} value={tag} title={tag} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField id="newTags" title="New Tags" placeholder="Comma-separated, e.g. work, snippets" />
+    </Form>
+  );
+}
+
+/** Tag actions for an entry, or for every selected entry in selection mode. */
+export function TagActions({ entries }: { entries: ClipboardEntry[] }) {
+  const { push } = useNavigation();
+  const present = [...new Set(entries.flatMap((e) => e.tags ?? []))];
+
+  return (
+    <>
+      <Action
+        title={entries.length > 1 ? `Tag ${entries.length} Selected` : "Edit Tags"}
+        icon={Icon.Tag}
+        shortcut={{ modifiers: ["cmd"], key: "t" }}
+        onAction={() => push(<TagForm entries={entries} />)}
+      />
+      {present.length > 0 && (
+        <ActionPanel.Submenu title="Remove Tag" icon={Icon.XMarkCircle}>
+          {present.map((tag) => (
+            <Action
+              key={tag}
+              title={tag}
+              icon={Icon.Tag}
+              onAction={() => {
+                const edits = tagEdits(entries, [], [tag]);
+                return perform(`Removed "${tag}" from ${plural(edits.length)}`, edits);
+              }}
+            />
+          ))}
+        </ActionPanel.Submenu>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { read, StoreData, subscribe } from "../lib/repository";
+
+const EMPTY: StoreData = { history: [], buckets: [], trash: { entries: [], buckets: [] } };
+
+/**
+ * The stored data, kept up to date with every change made in this command. Undefined until it has loaded. If it
+ * can't be read (the keychain refused the key, say), views are shown empty rather than loading forever, and a toast
+ * offers to try again.
+ */
+export function useStore(): StoreData | undefined {
+  const [data, setData] = useState<StoreData>();
+
+  useEffect(() => {
+    const unsubscribe = subscribe(setData);
+    const load = () =>
+      read()
+        .then(setData)
+        .catch(async (error) => {
+          setData((current) => current ?? EMPTY);
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Couldn't read Copy Notes",
+            message: error instanceof Error ? error.message : String(error),
+            primaryAction: { title: "Try Again", onAction: load },
+          });
+        });
+    load();
+    return unsubscribe;
+  }, []);
+
+  return data;
+}
@@ -6,58 +6,52 @@ import {
   Icon,
   useNavigation,
   Form,
-  LocalStorage,
   showToast,
   Toast,
   confirmAlert,
   Alert,
+  Color,
+  showInFinder,
 } from "@raycast/api";
-import { useEffect, useState } from "react";
-
-const BUCKET_COUNT = 5;
-const STORAGE_KEY = "copy-notes-buckets";
-const HISTORY_KEY = "copy-notes-history";
-
-async function loadHistory(): Promise<string[]> {
-  const stored = await LocalStorage.getItem<string>(HISTORY_KEY);
-  return stored ? JSON.parse(stored) : [];
-}
-
-async function saveHistory(history: string[]): Promise<void> {
-  await LocalStorage.setItem(HISTORY_KEY, JSON.stringify(history));
-}
-
-interface Bucket {
-  id: number;
-  name: string;
-  items: string[];
-}
-
-function defaultBuckets(): Bucket[] {
-  return Array.from({ length: BUCKET_COUNT }, (_, i) => ({ id: i, name: "", items: [] }));
-}
-
-async function loadBuckets(): Promise<Bucket[]> {
-  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
-  if (!stored) return defaultBuckets();
-  const parsed = JSON.parse(stored) as Bucket[];
-  while (parsed.length < BUCKET_COUNT) parsed.push({ id: parsed.length, name: "", items: [] });
-  return parsed.slice(0, BUCKET_COUNT);
-}
-
-async function saveBuckets(buckets: Bucket[]): Promise<void> {
-  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(buckets));
-}
-
-function truncate(text: string, max = 60): string {
-  const single = text.replace(/\n/g, " ").trim();
-  return single.length <= max ? single : single.substring(0, max) + "...";
-}
+import { ReactElement, useEffect, useState } from "react";
+import {
+  Bucket,
+  ClipboardEntry,
+  BUCKET_COLORS,
+  BUCKET_ICONS,
+  BucketMeta,
+  createBucket,
+  TrashedBucket,
+  TrashedEntry,
+} from "./lib/storage";
+import { isLocked } from "./lib/bucket-locks";
+import { captureClipboard } from "./lib/capture";
+import { breadcrumb, childBuckets, descendantIds } from "./lib/bucket-tree";
+import { bucketMarkdown, entryLabel, entryMarkdown, truncate } from "./lib/format";
+import { contentIcon } from "./lib/content-type";
+import { byFrecency, frequentlyUsed, loadMainSort, MainSort, recordUse, saveMainSort } from "./lib/frecency";
+import { fuzzyMatch, hasFilters, parseQuery, searchEntries } from "./lib/search";
+import { syncBuckets, syncConflicts, syncFolder } from "./lib/sync";
+import { allTags } from "./lib/tags";
+import { bucketMeta, Edit } from "./lib/operations";
+import { read, subscribe, takeRecovered, transaction } from "./lib/repository";
+import { perform, redoLast, trashEntry, undoLast } from "./lib/actions";
+import { bucketAccessories, bucketSummary, ContentActions, EntryDetail, entryAccessories } from "./components/entry";
+import { PasteAction, PasteAsSubmenu, usePresets } from "./components/paste";
+import { BucketItemsView } from "./components/bucket-items-view";
+import { DuplicatesView } from "./components/duplicates";
+import { LockActions, UnlockForm } from "./components/bucket-lock";
+import { EditActions } from "./components/revisions";
+import { pasteJoined, SequencesView, SequenceView } from "./components/sequences";
+import { SyncConflictsView } from "./components/sync";
+import { useStore } from "./components/use-store";
+import { RulePreviewView, RulesView } from "./components/rules";
+import { TagActions } from "./components/tags";
+import { StorageUsageView } from "./components/storage-usage";
+import { ExportBundle, exportData, ImportMode, planImport, readBundle } from "./lib/transfer";
 
-function bucketMarkdown(bucket: Bucket): string {
-  if (bucket.items.length === 0) return "_Empty_";
-  return bucket.items.map((item, i) => `**${i + 1}.** ${item.replace(/\n/g, " ").trim()}`).join("\n\n");
-}
+// How many of the most used entries are listed above everything else
+const FREQUENT_COUNT = 5;
 
 function BucketNameForm({ initialName, onSubmit }: { initialName?: string; onSubmit: (name: string) => void }) {
   const { pop } = useNavigation();
@@ -89,144 +83,339 @@ function BucketNameForm({ initialName, onSubmit }: { initialName?: string; onSub
   );
 }
 
-function BucketItemsView({
-  bucket,
-  onRemove,
-  onDelete,
-}: {
-  bucket: Bucket;
-  onRemove: (text: string) => void;
-  onDelete: (text: string) => void;
-}) {
-  const [items, setItems] = useState<string[]>(bucket.items);
-  const [selected, setSelected] = useState<string[]>([]);
-  const [selectionMode, setSelectionMode] = useState(false);
+function BucketAppearanceForm({ bucket, onSubmit }: { bucket: Bucket; onSubmit: (color: Color, icon: Icon) => void }) {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle={`Edit "${bucket.name}"`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save"
+            onSubmit={(values: { color: Color; icon: Icon }) => {
+              onSubmit(values.color, values.icon);
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="color" title="Colour" defaultValue={bucket.color}>
+        {BUCKET_COLORS.map((c) => (
+          <Form.Dropdown.Item
+            key={c.value}
+            value={c.value}
+            title={c.title}
+            icon={{ source: Icon.Circle, tintColor: c.value }}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="icon" title="Icon" defaultValue={bucket.icon}>
+        {BUCKET_ICONS.map((i) => (
+          <Form.Dropdown.Item key={i.value} value={i.value} title={i.title} icon={i.value} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
 
-  function toggleSelection(text: string) {
-    setSelected((prev) => (prev.includes(text) ? prev.filter((t) => t !== text) : [...prev, text]));
-  }
+function ExportForm() {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle="Export Copy Notes"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Export"
+            icon={Icon.Upload}
+            onSubmit={async (values: { folder: string[]; json: boolean; markdown: boolean; csv: boolean }) => {
+              const formats = (["json", "markdown", "csv"] as const).filter((format) => values[format]);
+              if (values.folder.length === 0 || formats.length === 0) return;
+              const toast = await showToast({ style: Toast.Style.Animated, title: "Exporting..." });
+              try {
+                const { history, buckets } = await read();
+                const written = await exportData(values.folder[0], formats, history, buckets);
+                toast.style = Toast.Style.Success;
+                toast.title = `Exported ${written.length} file${written.length !== 1 ? "s" : ""}`;
+                toast.primaryAction = { title: "Show in Finder", onAction: () => showInFinder(written[0]) };
+                pop();
+              } catch (error) {
+                toast.style = Toast.Style.Failure;
+                toast.title = "Export failed";
+                toast.message = error instanceof Error ? error.message : String(error);
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="folder"
+        title="Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+      />
+      <Form.Checkbox id="json" title="Formats" label="JSON (can be imported again)" defaultValue />
+      <Form.Checkbox id="markdown" label="Markdown, one document per bucket" />
+      <Form.Checkbox id="csv" label="CSV" />
+      <Form.Description text="Locked buckets are exported without their items unless they've been unlocked." />
+    </Form>
+  );
+}
 
-  function enterSelectionMode(text: string) {
-    setSelectionMode(true);
-    setSelected([text]);
-  }
+function ImportForm() {
+  const { pop } = useNavigation();
+  return (
+    <Form
+      navigationTitle="Import Copy Notes"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Import"
+            icon={Icon.Download}
+            onSubmit={async (values: { file: string[]; mode: ImportMode }) => {
+              if (values.file.length === 0) return;
+              let bundle: ExportBundle;
+              try {
+                bundle = await readBundle(values.file[0]);
+              } catch (error) {
+                await showToast({
+                  style: Toast.Style.Failure,
+                  title: "Can't import file",
+                  message: error instanceof Error ? error.message : String(error),
+                });
+                return;
+              }
 
-  function exitSelectionMode() {
-    setSelectionMode(false);
-    setSelected([]);
+              const current = await read();
+              const { report } = planImport(bundle, current.history, current.buckets, current.trash, values.mode);
+              const lines = [
+                `${report.added} entr${report.added !== 1 ? "ies" : "y"} will be imported.`,
+                report.duplicates > 0 &&
+                  `${report.duplicates} duplicate${report.duplicates !== 1 ? "s" : ""} already stored will be skipped.`,
+                report.newBuckets.length > 0 && `New buckets: ${report.newBuckets.join(", ")}.`,
+                report.conflicts.length > 0 && `Merged into existing buckets: ${report.conflicts.join(", ")}.`,
+                values.mode === "replace" && "Everything currently stored will be replaced.",
+              ].filter(Boolean);
+              const confirmed = await confirmAlert({
+                title: values.mode === "replace" ? "Replace All Data?" : "Import Data?",
+                message: lines.join("\n"),
+                primaryAction: {
+                  title: values.mode === "replace" ? "Replace" : "Import",
+                  style: values.mode === "replace" ? Alert.ActionStyle.Destructive : Alert.ActionStyle.Default,
+                },
+              });
+              if (!confirmed) return;
+
+              // Planned again against the latest data, in case anything changed while the alert was open
+              let added: number;
+              try {
+                added = await transaction((data) => {
+                  const plan = planImport(bundle, data.history, data.buckets, data.trash, values.mode);
+                  data.history = plan.history;
+                  data.buckets = plan.buckets;
+                  return plan.report.added;
+                });
+              } catch (error) {
+                await showToast({
+                  style: Toast.Style.Failure,
+                  title: "Couldn't import file",
+                  message: error instanceof Error ? error.message : String(error),
+                });
+                return;
+              }
+              await showToast({
+                style: Toast.Style.Success,
+                title: `Imported ${added} entr${added !== 1 ? "ies" : "y"}`,
+              });
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker id="file" title="Export File" allowMultipleSelection={false} />
+      <Form.Dropdown id="mode" title="Mode" defaultValue="merge">
+        <Form.Dropdown.Item value="merge" title="Merge with current data" />
+        <Form.Dropdown.Item value="replace" title="Replace current data" />
+      </Form.Dropdown>
+    </Form>
+  );
+}
+
+function TrashView() {
+  const state = useStore();
+  const { push, pop } = useNavigation();
+
+  const trash = state?.trash ?? { entries: [], buckets: [] };
+  const origin = (id: string): BucketMeta | undefined =>
+    state?.buckets.find((b) => b.id === id) ?? trash.buckets.find((t) => t.bucket.id === id)?.bucket;
+  // Items trashed from a locked bucket stay hidden until it's unlocked, wherever the bucket is now
+  const lockedOrigin = ({ origin: { bucketId } }: TrashedEntry) => {
+    const bucket = bucketId ? origin(bucketId) : undefined;
+    return bucket && isLocked(bucket) ? bucket : undefined;
+  };
+
+  function restoreEntry({ entry, origin }: TrashedEntry) {
+    return perform("Restored entry", [{ type: "entry", entry, place: origin }]);
   }
 
-  async function pasteSelected() {
-    const joined = selected.join("\n");
-    await Clipboard.paste(joined);
-    setSelected([]);
-    setSelectionMode(false);
-    await showToast({ style: Toast.Style.Success, title: `Pasted ${selected.length} items` });
+  // A bucket comes back with the items that were trashed along with it
+  function restoreBucket({ bucket, index }: TrashedBucket) {
+    const parentExists = state?.buckets.some((b) => b.id === bucket.parentId);
+    const items = trash.entries.filter((t) => t.origin.bucketId === bucket.id).reverse();
+    return perform(`Restored "${bucket.name}"`, [
+      { type: "bucket", bucket: { ...bucket, parentId: parentExists ? bucket.parentId : undefined }, place: { index } },
+      ...items.map(({ entry, origin }): Edit => ({ type: "entry", entry, place: origin })),
+    ]);
   }
 
-  function handleRemove(text: string) {
-    setItems((prev) => prev.filter((i) => i !== text));
-    setSelected((prev) => prev.filter((i) => i !== text));
-    onRemove(text);
+  // Permanent deletions can't be undone, so each one is confirmed
+  async function deletePermanently(what: string, title: string, edits: Edit[]) {
+    const confirmed = await confirmAlert({
+      title: `Delete ${what} Permanently?`,
+      message: "This can't be undone.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) await perform(title, edits);
   }
 
-  function handleDelete(text: string) {
-    setItems((prev) => prev.filter((i) => i !== text));
-    setSelected((prev) => prev.filter((i) => i !== text));
-    onDelete(text);
+  async function emptyTrash() {
+    const confirmed = await confirmAlert({
+      title: "Empty Trash?",
+      message: "Everything in the Trash will be deleted permanently. This can't be undone.",
+      primaryAction: { title: "Empty Trash", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await perform("Emptied Trash", [
+      ...trash.entries.map(({ entry }): Edit => ({ type: "entry", entry, place: null })),
+      ...trash.buckets.map(({ bucket }): Edit => ({ type: "bucket", bucket, place: null })),
+    ]);
   }
 
-  return (
-    <List
-      navigationTitle={bucket.name}
-      searchBarPlaceholder={selectionMode ? `Selection mode — ${selected.length} selected` : "Type a number to jump..."}
-    >
-      {items.map((text, i) => {
-        const isSelected = selected.includes(text);
-        const selectionIndex = selected.indexOf(text);
-
-        const copyAndDeleteActions = (
-          <>
-            <Action
-              title="Copy"
-              icon={Icon.CopyClipboard}
-              onAction={async () => {
-                await Clipboard.copy(text);
-                await showToast({ style: Toast.Style.Success, title: "Copied" });
-              }}
-            />
-            <Action title="Remove from Bucket" icon={Icon.MinusCircle} onAction={() => handleRemove(text)} />
-            <Action
-              title="Delete Entry"
-              icon={Icon.Trash}
-              style={Action.Style.Destructive}
-              shortcut={{ modifiers: ["cmd"], key: "backspace" }}
-              onAction={() => handleDelete(text)}
-            />
-          </>
-        );
+  const emptyTrashAction = (
+    <Action
+      title="Empty Trash"
+      icon={Icon.Trash}
+      style={Action.Style.Destructive}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "backspace" }}
+      onAction={emptyTrash}
+    />
+  );
+  const deletedAccessory = (deletedAt: number): List.Item.Accessory => ({
+    date: new Date(deletedAt),
+    tooltip: `Deleted ${new Date(deletedAt).toLocaleString()}`,
+  });
 
-        return (
+  return (
+    <List isLoading={!state} navigationTitle="Trash" isShowingDetail={trash.entries.length > 0}>
+      <List.EmptyView icon={Icon.Trash} title="Trash is empty" />
+      <List.Section title="Buckets">
+        {trash.buckets.map((trashed) => (
           <List.Item
-            key={i}
-            icon={isSelected ? Icon.CheckCircle : Icon.Clipboard}
-            title={`${i + 1}. ${text.replace(/\n/g, " ").trim()}`}
-            keywords={[String(i + 1)]}
-            accessories={isSelected ? [{ tag: String(selectionIndex + 1) }] : []}
+            key={`bucket-${trashed.bucket.id}`}
+            icon={{ source: trashed.bucket.icon, tintColor: trashed.bucket.color }}
+            title={trashed.bucket.name}
+            accessories={[deletedAccessory(trashed.deletedAt)]}
             actions={
-              selectionMode ? (
+              <ActionPanel>
+                <Action title="Restore Bucket" icon={Icon.Undo} onAction={() => restoreBucket(trashed)} />
+                <Action
+                  title="Delete Permanently"
+                  icon={Icon.XMarkCircle}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                  onAction={() =>
+                    deletePermanently(`"${trashed.bucket.name}"`, `Deleted "${trashed.bucket.name}" permanently`, [
+                      { type: "bucket", bucket: trashed.bucket, place: null },
+                    ])
+                  }
+                />
+                {emptyTrashAction}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      <List.Section title="Entries">
+        {trash.entries.map((trashed) => {
+          const locked = lockedOrigin(trashed);
+          return (
+            <List.Item
+              key={trashed.entry.id}
+              icon={locked ? Icon.Lock : contentIcon(trashed.entry.contentType, trashed.entry.content)}
+              title={locked ? "Locked Entry" : truncate(entryLabel(trashed.entry))}
+              accessories={[
+                ...(trashed.origin.bucketId
+                  ? [{ tag: origin(trashed.origin.bucketId)?.name ?? "Deleted bucket" }]
+                  : []),
+                deletedAccessory(trashed.deletedAt),
+              ]}
+              detail={
+                <List.Item.Detail
+                  markdown={locked ? bucketMarkdown({ ...locked, items: [] }) : entryMarkdown(trashed.entry)}
+                />
+              }
+              actions={
                 <ActionPanel>
+                  {locked && (
+                    <Action
+                      title="Unlock"
+                      icon={Icon.LockUnlocked}
+                      onAction={() => push(<UnlockForm bucket={{ ...locked, items: [] }} onUnlock={pop} />)}
+                    />
+                  )}
+                  <Action title="Restore Entry" icon={Icon.Undo} onAction={() => restoreEntry(trashed)} />
+                  {!locked && (
+                    <Action.CopyToClipboard content={trashed.entry.content} concealed={!!trashed.entry.sensitive} />
+                  )}
                   <Action
-                    title={isSelected ? "Deselect" : "Select"}
-                    icon={isSelected ? Icon.CheckCircle : Icon.Circle}
-                    onAction={() => toggleSelection(text)}
-                  />
-                  <Action title={`Paste ${selected.length} Selected`} icon={Icon.Clipboard} onAction={pasteSelected} />
-                  <Action
-                    title="Exit Selection Mode"
+                    title="Delete Permanently"
                     icon={Icon.XMarkCircle}
-                    shortcut={{ modifiers: ["ctrl"], key: "escape" }}
-                    onAction={exitSelectionMode}
-                  />
-                  {copyAndDeleteActions}
-                </ActionPanel>
-              ) : (
-                <ActionPanel>
-                  <Action
-                    title="Paste"
-                    icon={Icon.Clipboard}
-                    onAction={async () => {
-                      await Clipboard.paste(text);
-                      await showToast({ style: Toast.Style.Success, title: "Pasted" });
-                    }}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+                    onAction={() =>
+                      deletePermanently("Entry", "Deleted entry permanently", [
+                        { type: "entry", entry: trashed.entry, place: null },
+                      ])
+                    }
                   />
-                  <Action title="Select" icon={Icon.Circle} onAction={() => enterSelectionMode(text)} />
-                  {copyAndDeleteActions}
+                  {emptyTrashAction}
                 </ActionPanel>
-              )
-            }
-          />
-        );
-      })}
+              }
+            />
+          );
+        })}
+      </List.Section>
     </List>
   );
 }
 
 export default function Command() {
-  const [uncategorized, setUncategorized] = useState<string[]>([]);
-  const [buckets, setBuckets] = useState<Bucket[]>(defaultBuckets());
-  const [isLoading, setIsLoading] = useState(true);
+  const data = useStore();
+  const [isCapturing, setIsCapturing] = useState(true);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const [selectionMode, setSelectionMode] = useState(false);
-  const { push } = useNavigation();
+  const [searchText, setSearchText] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [mainSort, setMainSort] = useState<MainSort>("recent");
+  const presets = usePresets();
+  const { push, pop } = useNavigation();
+
+  const isLoading = !data || isCapturing;
+  const buckets = data?.buckets ?? [];
+  const bucketed = new Set(buckets.flatMap((b) => b.items.map((e) => e.id)));
+  const uncategorized = data?.history.filter((e) => !bucketed.has(e.id)) ?? [];
 
-  function toggleSelection(text: string) {
-    setSelectedItems((prev) => (prev.includes(text) ? prev.filter((t) => t !== text) : [...prev, text]));
+  function toggleSelection(id: string) {
+    setSelectedItems((prev) => (prev.includes(id) ? prev.filter((t) => t !== id) : [...prev, id]));
   }
 
-  function enterSelectionMode(text: string) {
+  function enterSelectionMode(id: string) {
     setSelectionMode(true);
-    setSelectedItems([text]);
+    setSelectedItems([id]);
   }
 
   function exitSelectionMode() {
@@ -234,216 +423,384 @@ export default function Command() {
     setSelectedItems([]);
   }
 
-  async function init() {
-    setIsLoading(true);
-
-    // Read fresh items from clipboard (API capped at ~5)
-    const fresh: string[] = [];
-    for (let offset = 0; offset < 10; offset++) {
-      try {
-        const { text } = await Clipboard.read({ offset });
-        const trimmed = text?.trim();
-        if (trimmed) fresh.push(trimmed);
-      } catch {
-        break;
+  function selectedEntries(): ClipboardEntry[] {
+    return selectedItems
+      .map((id) => uncategorized.find((e) => e.id === id))
+      .filter((e): e is ClipboardEntry => e !== undefined);
+  }
+
+  async function sync(announce = false) {
+    try {
+      const conflicts = await syncBuckets();
+      if (conflicts.length > 0) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: `${conflicts.length} sync conflict${conflicts.length !== 1 ? "s" : ""}`,
+          message: "Items were changed both here and in the sync folder",
+          primaryAction: { title: "Resolve", onAction: () => push(<SyncConflictsView conflicts={conflicts} />) },
+        });
+      } else if (announce) {
+        await showToast({ style: Toast.Style.Success, title: "Buckets synced" });
       }
+    } catch (error) {
+      await showToast({ style: Toast.Style.Failure, title: "Couldn't sync buckets", message: String(error) });
     }
+  }
 
-    // Merge fresh items with persisted history — fresh items go to the front
-    const persisted = await loadHistory();
-    const merged = [...fresh];
-    for (const item of persisted) {
-      if (!merged.includes(item)) merged.push(item);
+  async function init() {
+    // Pull in anything copied since the background capture last ran
+    try {
+      await captureClipboard();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't save new copies",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsCapturing(false);
     }
+    await sync();
 
-    // Persist the merged history
-    await saveHistory(merged);
-
-    const storedBuckets = await loadBuckets();
-    const bucketed = new Set(storedBuckets.flatMap((b) => b.items));
-    setUncategorized(merged.filter((t) => !bucketed.has(t)));
-    setBuckets(storedBuckets);
-    setIsLoading(false);
+    const recovered = takeRecovered();
+    if (recovered.length > 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Recovered damaged data",
+        message: `Some of your ${recovered.join(" and ")} couldn't be read and was skipped. A backup of the original was kept.`,
+      });
+    }
   }
 
   useEffect(() => {
     init();
+    loadMainSort().then(setMainSort);
   }, []);
 
-  async function moveToExistingBucket(text: string, bucketId: number) {
-    const updated = buckets.map((b) =>
-      b.id === bucketId ? { ...b, items: [text, ...b.items.filter((i) => i !== text)] } : b,
-    );
-    setBuckets(updated);
-    setUncategorized((prev) => prev.filter((i) => i !== text));
-    const persisted = await loadHistory();
-    await saveHistory(persisted.filter((i) => i !== text));
-    await saveBuckets(updated);
-    await showToast({ style: Toast.Style.Success, title: `Moved to "${updated[bucketId].name}"` });
+  async function toggleMainSort() {
+    const sort = mainSort === "recent" ? "frecency" : "recent";
+    setMainSort(sort);
+    await saveMainSort(sort);
   }
 
-  async function moveToNewBucket(text: string, bucketId: number, name: string) {
-    const updated = buckets.map((b) =>
-      b.id === bucketId ? { ...b, name, items: [text, ...b.items.filter((i) => i !== text)] } : b,
-    );
-    setBuckets(updated);
-    setUncategorized((prev) => prev.filter((i) => i !== text));
-    const persisted = await loadHistory();
-    await saveHistory(persisted.filter((i) => i !== text));
-    await saveBuckets(updated);
-    await showToast({ style: Toast.Style.Success, title: `Created "${name}" and added item` });
+  // Changes made here are written out to the sync folder as they happen. A sync that changes nothing stops there.
+  useEffect(() => {
+    if (!syncFolder()) return;
+    return subscribe(() => {
+      syncBuckets().catch(() => undefined);
+    });
+  }, []);
+
+  async function moveToExistingBucket(entry: ClipboardEntry, bucketId: string) {
+    await perform(`Moved to "${buckets.find((b) => b.id === bucketId)?.name}"`, [
+      { type: "entry", entry, place: { bucketId, index: 0 } },
+    ]);
   }
 
-  async function renameBucket(bucketId: number, name: string) {
-    const updated = buckets.map((b) => (b.id === bucketId ? { ...b, name } : b));
-    setBuckets(updated);
-    await saveBuckets(updated);
-    await showToast({ style: Toast.Style.Success, title: `Renamed to "${name}"` });
+  async function moveToNewBucket(entry: ClipboardEntry, name: string) {
+    const bucket = createBucket(name, buckets);
+    await perform(`Created "${name}" and added item`, [
+      { type: "bucket", bucket: bucketMeta(bucket) },
+      { type: "entry", entry, place: { bucketId: bucket.id, index: 0 } },
+    ]);
   }
 
-  async function moveBulkToExistingBucket(bucketId: number) {
-    const texts = [...selectedItems];
-    const updated = buckets.map((b) =>
-      b.id === bucketId ? { ...b, items: [...texts, ...b.items.filter((i) => !selectedItems.includes(i))] } : b,
-    );
-    setBuckets(updated);
-    setUncategorized((prev) => prev.filter((i) => !selectedItems.includes(i)));
-    setSelectedItems([]);
-    await saveBuckets(updated);
-    await showToast({
-      style: Toast.Style.Success,
-      title: `Moved ${texts.length} items to "${updated[bucketId].name}"`,
-    });
+  async function createEmptyBucket(name: string, parentId?: string) {
+    await perform(`Created "${name}"`, [{ type: "bucket", bucket: bucketMeta(createBucket(name, buckets, parentId)) }]);
   }
 
-  async function moveBulkToNewBucket(bucketId: number, name: string) {
-    const texts = [...selectedItems];
-    const updated = buckets.map((b) =>
-      b.id === bucketId ? { ...b, name, items: [...texts, ...b.items.filter((i) => !selectedItems.includes(i))] } : b,
-    );
-    setBuckets(updated);
-    setUncategorized((prev) => prev.filter((i) => !selectedItems.includes(i)));
-    setSelectedItems([]);
-    await saveBuckets(updated);
-    await showToast({
-      style: Toast.Style.Success,
-      title: `Moved ${texts.length} items to "${name}"`,
-    });
+  async function updateBucket(title: string, bucketId: string, update: Partial<BucketMeta>) {
+    await perform(title, [{ type: "bucket", bucket: { id: bucketId, ...update } }]);
   }
 
-  async function removeFromBucket(text: string, bucketId: number) {
-    const updated = buckets.map((b) => (b.id === bucketId ? { ...b, items: b.items.filter((i) => i !== text) } : b));
-    setBuckets(updated);
-    setUncategorized((prev) => [text, ...prev]);
-    await saveBuckets(updated);
-    await showToast({ style: Toast.Style.Success, title: "Moved back to Recent" });
+  async function renameBucket(bucketId: string, name: string) {
+    await updateBucket(`Renamed to "${name}"`, bucketId, { name });
   }
 
-  async function deleteEntry(text: string) {
-    const confirmed = await confirmAlert({
-      title: "Delete Entry",
-      message: truncate(text, 80),
-      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+  async function updateBucketAppearance(bucketId: string, color: Color, icon: Icon) {
+    await updateBucket("Updated appearance", bucketId, { color, icon });
+  }
+
+  async function togglePinned(bucketId: string) {
+    const bucket = buckets.find((b) => b.id === bucketId);
+    if (!bucket) return;
+    await updateBucket(bucket.pinned ? "Unpinned" : `Pinned "${bucket.name}"`, bucketId, { pinned: !bucket.pinned });
+  }
+
+  // Swaps with the neighbouring sibling in display order, so pinned and unpinned buckets reorder independently
+  async function reorderBucket(bucketId: string, direction: -1 | 1) {
+    const bucket = buckets.find((b) => b.id === bucketId);
+    const siblings = childBuckets(buckets, bucket?.parentId);
+    const index = siblings.findIndex((b) => b.id === bucketId);
+    const neighbour = siblings[index + direction];
+    if (!bucket || !neighbour || neighbour.pinned !== bucket.pinned) return;
+    await perform(`Moved "${bucket.name}" ${direction < 0 ? "up" : "down"}`, [
+      { type: "bucket", bucket: bucketMeta(bucket), place: { index: buckets.indexOf(neighbour) } },
+      { type: "bucket", bucket: bucketMeta(neighbour), place: { index: buckets.indexOf(bucket) } },
+    ]);
+  }
+
+  // A bucket always moves together with everything nested inside it
+  async function moveBucket(bucketId: string, parentId?: string) {
+    if (parentId === bucketId || (parentId && descendantIds(buckets, bucketId).has(parentId))) return;
+    await updateBucket(parentId ? `Moved into "${breadcrumb(buckets, parentId)}"` : "Moved to top level", bucketId, {
+      parentId,
     });
-    if (!confirmed) return;
-    setUncategorized((prev) => prev.filter((i) => i !== text));
-    const persisted = await loadHistory();
-    await saveHistory(persisted.filter((i) => i !== text));
-    await showToast({ style: Toast.Style.Success, title: "Entry deleted" });
   }
 
-  async function deleteBucket(bucketId: number) {
+  async function moveBulkToExistingBucket(bucketId: string) {
+    const entries = selectedEntries();
+    setSelectedItems([]);
+    await perform(
+      `Moved ${entries.length} items to "${buckets.find((b) => b.id === bucketId)?.name}"`,
+      entries.map((entry, index) => ({ type: "entry", entry, place: { bucketId, index } })),
+    );
+  }
+
+  async function moveBulkToNewBucket(name: string) {
+    const entries = selectedEntries();
+    const bucket = createBucket(name, buckets);
+    setSelectedItems([]);
+    await perform(`Moved ${entries.length} items to "${name}"`, [
+      { type: "bucket", bucket: bucketMeta(bucket) },
+      ...entries.map((entry, index): Edit => ({ type: "entry", entry, place: { bucketId: bucket.id, index } })),
+    ]);
+  }
+
+  // Deleting a bucket trashes it with its own items, but its sub-buckets are kept and move up to its parent
+  async function deleteBucket(bucketId: string) {
     const bucket = buckets.find((b) => b.id === bucketId);
+    if (!bucket) return;
+    // Its items would be readable in the Trash, so a locked bucket has to be unlocked first
+    if (isLocked(bucket)) {
+      push(
+        <UnlockForm
+          bucket={bucket}
+          onUnlock={() => {
+            pop();
+            deleteBucket(bucketId);
+          }}
+        />,
+      );
+      return;
+    }
+    const children = buckets.filter((b) => b.parentId === bucketId);
     const confirmed = await confirmAlert({
-      title: `Delete "${bucket?.name}" Bucket`,
-      message: `This will permanently delete the bucket and all ${bucket?.items.length} item${bucket?.items.length !== 1 ? "s" : ""} inside it.`,
-      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+      title: `Move "${bucket.name}" Bucket to Trash`,
+      message:
+        `The bucket and its ${bucket.items.length} item${bucket.items.length !== 1 ? "s" : ""} can be restored from the Trash.` +
+        (children.length > 0
+          ? ` Its ${children.length} sub-bucket${children.length !== 1 ? "s" : ""} will move up a level.`
+          : ""),
+      primaryAction: { title: "Move to Trash", style: Alert.ActionStyle.Destructive },
     });
     if (!confirmed) return;
-    const updated = buckets.map((b) => (b.id === bucketId ? { ...b, name: "", items: [] } : b));
-    setBuckets(updated);
-    await saveBuckets(updated);
-    await showToast({ style: Toast.Style.Success, title: `"${bucket?.name}" deleted` });
+    await perform(`Moved "${bucket.name}" to Trash`, [
+      ...bucket.items.map((entry): Edit => ({ type: "entry", entry, place: { trash: true } })),
+      ...children.map(
+        (child): Edit => ({ type: "bucket", bucket: { ...bucketMeta(child), parentId: bucket.parentId } }),
+      ),
+      { type: "bucket", bucket: bucketMeta(bucket), place: { trash: true } },
+    ]);
   }
 
-  async function deleteEntryFromBucket(text: string, bucketId: number) {
-    const updated = buckets.map((b) => (b.id === bucketId ? { ...b, items: b.items.filter((i) => i !== text) } : b));
-    setBuckets(updated);
-    const persisted = await loadHistory();
-    await saveHistory(persisted.filter((i) => i !== text));
-    await saveBuckets(updated);
-    await showToast({ style: Toast.Style.Success, title: "Entry deleted" });
-  }
-
-  function openBucket(bucket: Bucket) {
+  function openBucket(bucket: Bucket, entryId?: string) {
     push(
       <BucketItemsView
         bucket={bucket}
-        onRemove={(text) => removeFromBucket(text, bucket.id)}
-        onDelete={(text) => deleteEntryFromBucket(text, bucket.id)}
+        buckets={buckets}
+        selectedEntryId={entryId}
+        renderBucketActions={bucketActions}
       />,
     );
   }
 
-  function getMoveActions(text: string) {
-    const namedBuckets = buckets.filter((b) => b.name);
-    const nextEmptyBucket = buckets.find((b) => !b.name);
+  // Buckets with sub-buckets become submenus, so the move menus mirror the bucket tree
+  function bucketTreeActions(onSelect: (bucket: Bucket) => void, parentId?: string, exclude?: Set<string>) {
+    return childBuckets(buckets, parentId)
+      .filter((bucket) => !exclude?.has(bucket.id))
+      .map((bucket): ReactElement => {
+        const icon = { source: bucket.icon, tintColor: bucket.color };
+        const children = bucketTreeActions(onSelect, bucket.id, exclude);
+        if (children.length === 0) {
+          return <Action key={bucket.id} title={bucket.name} icon={icon} onAction={() => onSelect(bucket)} />;
+        }
+        return (
+          <ActionPanel.Submenu key={bucket.id} title={bucket.name} icon={icon}>
+            <Action title={`Into "${bucket.name}"`} icon={icon} onAction={() => onSelect(bucket)} />
+            {children}
+          </ActionPanel.Submenu>
+        );
+      });
+  }
 
+  function getMoveActions(entry: ClipboardEntry) {
     return [
-      ...namedBuckets.map((bucket) => (
-        <Action
-          key={bucket.id}
-          title={bucket.name}
-          icon={Icon.Folder}
-          onAction={() => moveToExistingBucket(text, bucket.id)}
-        />
-      )),
-      nextEmptyBucket ? (
-        <Action
-          key="new"
-          title="New Bucket"
-          icon={Icon.FolderAdd}
-          onAction={() => push(<BucketNameForm onSubmit={(name) => moveToNewBucket(text, nextEmptyBucket.id, name)} />)}
-        />
-      ) : null,
+      ...bucketTreeActions((bucket) => moveToExistingBucket(entry, bucket.id)),
+      <Action
+        key="new"
+        title="New Bucket"
+        icon={Icon.NewFolder}
+        onAction={() => push(<BucketNameForm onSubmit={(name) => moveToNewBucket(entry, name)} />)}
+      />,
     ];
   }
 
   function getBulkMoveActions() {
-    const namedBuckets = buckets.filter((b) => b.name);
-    const nextEmptyBucket = buckets.find((b) => !b.name);
     return [
-      ...namedBuckets.map((bucket) => (
+      ...bucketTreeActions((bucket) => moveBulkToExistingBucket(bucket.id)),
+      <Action
+        key="new"
+        title="New Bucket"
+        icon={Icon.NewFolder}
+        onAction={() => push(<BucketNameForm onSubmit={(name) => moveBulkToNewBucket(name)} />)}
+      />,
+    ];
+  }
+
+  function bucketActions(bucket: Bucket) {
+    const siblings = childBuckets(buckets, bucket.parentId);
+    const index = siblings.findIndex((b) => b.id === bucket.id);
+    const exclude = new Set([bucket.id, ...descendantIds(buckets, bucket.id)]);
+
+    return (
+      <ActionPanel>
+        <Action title="Open Bucket" icon={Icon.ArrowRight} onAction={() => openBucket(bucket)} />
         <Action
-          key={bucket.id}
-          title={bucket.name}
-          icon={Icon.Folder}
-          onAction={() => moveBulkToExistingBucket(bucket.id)}
+          title="Rename Bucket"
+          icon={Icon.Pencil}
+          onAction={() =>
+            push(<BucketNameForm initialName={bucket.name} onSubmit={(name) => renameBucket(bucket.id, name)} />)
+          }
+        />
+        <Action
+          title="Edit Appearance"
+          icon={Icon.Brush}
+          onAction={() =>
+            push(
+              <BucketAppearanceForm
+                bucket={bucket}
+                onSubmit={(color, icon) => updateBucketAppearance(bucket.id, color, icon)}
+              />,
+            )
+          }
+        />
+        <Action
+          title={bucket.pinned ? "Unpin Bucket" : "Pin Bucket"}
+          icon={bucket.pinned ? Icon.PinDisabled : Icon.Pin}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+          onAction={() => togglePinned(bucket.id)}
+        />
+        <LockActions bucket={bucket} />
+        {syncFolder() && !bucket.locked && (
+          <Action
+            title={bucket.synced ? "Stop Syncing" : "Share Via Sync Folder"}
+            icon={bucket.synced ? Icon.XMarkCircle : Icon.Upload}
+            onAction={() =>
+              updateBucket(bucket.synced ? `Stopped syncing "${bucket.name}"` : `Sharing "${bucket.name}"`, bucket.id, {
+                synced: bucket.synced ? undefined : true,
+              })
+            }
+          />
+        )}
+        {index > 0 && siblings[index - 1].pinned === bucket.pinned && (
+          <Action
+            title="Move Upward"
+            icon={Icon.ArrowUp}
+            shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+            onAction={() => reorderBucket(bucket.id, -1)}
+          />
+        )}
+        {index < siblings.length - 1 && siblings[index + 1].pinned === bucket.pinned && (
+          <Action
+            title="Move Downward"
+            icon={Icon.ArrowDown}
+            shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+            onAction={() => reorderBucket(bucket.id, 1)}
+          />
+        )}
+        <ActionPanel.Submenu title="Move Bucket into" icon={Icon.Folder}>
+          {bucket.parentId && <Action title="Top Level" icon={Icon.House} onAction={() => moveBucket(bucket.id)} />}
+          {bucketTreeActions((target) => moveBucket(bucket.id, target.id), undefined, exclude)}
+        </ActionPanel.Submenu>
+        <Action
+          title="New Sub-Bucket"
+          icon={Icon.NewFolder}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+          onAction={() => push(<BucketNameForm onSubmit={(name) => createEmptyBucket(name, bucket.id)} />)}
         />
-      )),
-      nextEmptyBucket ? (
         <Action
-          key="new"
           title="New Bucket"
-          icon={Icon.FolderAdd}
-          onAction={() => push(<BucketNameForm onSubmit={(name) => moveBulkToNewBucket(nextEmptyBucket.id, name)} />)}
+          icon={Icon.NewFolder}
+          shortcut={{ modifiers: ["cmd"], key: "n" }}
+          onAction={() => push(<BucketNameForm onSubmit={(name) => createEmptyBucket(name)} />)}
         />
-      ) : null,
-    ];
+        <Action
+          title="Move Bucket to Trash"
+          icon={Icon.Trash}
+          style={Action.Style.Destructive}
+          shortcut={{ modifiers: ["cmd"], key: "backspace" }}
+          onAction={() => deleteBucket(bucket.id)}
+        />
+        {undoActions}
+        {dataActions}
+      </ActionPanel>
+    );
   }
 
+  const undoActions = (
+    <ActionPanel.Section title="History">
+      <Action title="Undo" icon={Icon.Undo} shortcut={{ modifiers: ["cmd"], key: "z" }} onAction={undoLast} />
+      <Action title="Redo" icon={Icon.Redo} shortcut={{ modifiers: ["cmd", "shift"], key: "z" }} onAction={redoLast} />
+      <Action
+        title="Open Trash"
+        icon={Icon.Trash}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+        onAction={() => push(<TrashView />)}
+      />
+    </ActionPanel.Section>
+  );
+
+  const dataActions = (
+    <ActionPanel.Section title="Data">
+      <Action title="Bucketing Rules" icon={Icon.Wand} onAction={() => push(<RulesView />)} />
+      <Action
+        title={mainSort === "recent" ? "Sort by Frecency" : "Sort by Recency"}
+        icon={Icon.BarChart}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+        onAction={toggleMainSort}
+      />
+      <Action title="Sequences" icon={Icon.List} onAction={() => push(<SequencesView />)} />
+      <Action title="Find Duplicates" icon={Icon.Layers} onAction={() => push(<DuplicatesView />)} />
+      {syncFolder() && (
+        <>
+          <Action title="Sync Now" icon={Icon.ArrowClockwise} onAction={() => sync(true)} />
+          <Action
+            title="Sync Conflicts"
+            icon={Icon.Warning}
+            onAction={async () => push(<SyncConflictsView conflicts={await syncConflicts()} />)}
+          />
+        </>
+      )}
+      <Action title="Storage Usage" icon={Icon.HardDrive} onAction={() => push(<StorageUsageView />)} />
+      <Action
+        title="Apply Rules to Everything Else"
+        icon={Icon.Wand}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+        onAction={() => push(<RulePreviewView />)}
+      />
+      <Action title="Export Data" icon={Icon.Upload} onAction={() => push(<ExportForm />)} />
+      <Action title="Import Data" icon={Icon.Download} onAction={() => push(<ImportForm />)} />
+    </ActionPanel.Section>
+  );
+
   async function pasteSelected() {
-    const joined = selectedItems.join("\n");
-    await Clipboard.paste(joined);
+    await pasteJoined(selectedEntries(), "\n");
     setSelectedItems([]);
-    await showToast({
-      style: Toast.Style.Success,
-      title: `Pasted ${selectedItems.length} items`,
-    });
   }
 
-  function clipboardItemActions(text: string) {
-    const isSelected = selectedItems.includes(text);
+  function clipboardItemActions(entry: ClipboardEntry) {
+    const isSelected = selectedItems.includes(entry.id);
     const moveBucketSubmenu =
       selectedItems.length > 0 ? (
         <ActionPanel.Submenu
@@ -459,7 +816,7 @@ export default function Command() {
           icon={Icon.Folder}
           shortcut={{ modifiers: ["cmd"], key: "arrowRight" }}
         >
-          {getMoveActions(text)}
+          {getMoveActions(entry)}
         </ActionPanel.Submenu>
       );
 
@@ -469,16 +826,17 @@ export default function Command() {
           title="Copy"
           icon={Icon.CopyClipboard}
           onAction={async () => {
-            await Clipboard.copy(text);
+            await Clipboard.copy(entry.content, { concealed: !!entry.sensitive });
+            await recordUse([entry.id]);
             await showToast({ style: Toast.Style.Success, title: "Copied" });
           }}
         />
         <Action
-          title="Delete Entry"
+          title="Move to Trash"
           icon={Icon.Trash}
           style={Action.Style.Destructive}
           shortcut={{ modifiers: ["cmd"], key: "backspace" }}
-          onAction={() => deleteEntry(text)}
+          onAction={() => trashEntry(entry)}
         />
       </>
     );
@@ -489,10 +847,18 @@ export default function Command() {
           <Action
             title={isSelected ? "Deselect" : "Select"}
             icon={isSelected ? Icon.CheckCircle : Icon.Circle}
-            onAction={() => toggleSelection(text)}
+            onAction={() => toggleSelection(entry.id)}
           />
           <Action title={`Paste ${selectedItems.length} Selected`} icon={Icon.Clipboard} onAction={pasteSelected} />
+          <Action
+            title={`Arrange ${selectedItems.length} Selected`}
+            icon={Icon.List}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+            onAction={() => push(<SequenceView entryIds={selectedItems} />)}
+          />
+          <PasteAsSubmenu entries={selectedEntries()} presets={presets} />
           {moveBucketSubmenu}
+          <TagActions entries={selectedEntries()} />
           <Action
             title="Exit Selection Mode"
             icon={Icon.XMarkCircle}
@@ -506,96 +872,231 @@ export default function Command() {
 
     return (
       <ActionPanel>
+        <PasteAction content={entry.content} entryId={entry.id} />
+        <PasteAsSubmenu entries={[entry]} presets={presets} />
+        <Action title="Select" icon={Icon.Circle} onAction={() => enterSelectionMode(entry.id)} />
+        {moveBucketSubmenu}
+        <TagActions entries={[entry]} />
+        <EditActions entry={entry} />
         <Action
-          title="Paste"
-          icon={Icon.Clipboard}
-          onAction={async () => {
-            await Clipboard.paste(text);
-            await showToast({ style: Toast.Style.Success, title: "Pasted" });
-          }}
+          title={entry.pinned ? "Unpin Entry" : "Pin Entry"}
+          icon={entry.pinned ? Icon.PinDisabled : Icon.Pin}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+          onAction={() =>
+            perform(entry.pinned ? "Unpinned entry" : "Pinned entry", [
+              { type: "entry", entry, update: { pinned: entry.pinned ? undefined : true } },
+            ])
+          }
         />
-        <Action title="Select" icon={Icon.Circle} onAction={() => enterSelectionMode(text)} />
-        {moveBucketSubmenu}
         {copyAndDeleteActions}
+        <ContentActions entry={entry} />
+        {undoActions}
+        {dataActions}
       </ActionPanel>
     );
   }
 
-  return (
-    <List
-      isLoading={isLoading}
-      searchBarPlaceholder={selectionMode ? `Selection mode — ${selectedItems.length} selected` : "Search..."}
-      isShowingDetail
-    >
-      <List.Section title="Latest Copied">
-        {uncategorized.length === 0 && !isLoading && (
-          <List.Item id="empty-recent" title="No uncategorized items" icon={Icon.CheckCircle} />
-        )}
-        {uncategorized.slice(0, 1).map((text, i) => (
-          <List.Item
-            key={`uncategorized-${i}`}
-            id={`uncategorized-${i}`}
-            icon={selectedItems.includes(text) ? Icon.CheckCircle : Icon.Clipboard}
-            title={truncate(text)}
-            accessories={selectedItems.includes(text) ? [{ tag: String(selectedItems.indexOf(text) + 1) }] : []}
-            detail={<List.Item.Detail markdown={text} />}
-            actions={clipboardItemActions(text)}
-          />
-        ))}
-      </List.Section>
+  // Entries that are filed away, as listed in search results and Frequently Used
+  function bucketedEntryActions(entry: ClipboardEntry, bucket: Bucket) {
+    return (
+      <ActionPanel>
+        <Action title="Open in Bucket" icon={Icon.ArrowRight} onAction={() => openBucket(bucket, entry.id)} />
+        <PasteAction content={entry.content} entryId={entry.id} />
+        <PasteAsSubmenu entries={[entry]} presets={presets} />
+        <Action.CopyToClipboard
+          content={entry.content}
+          concealed={!!entry.sensitive}
+          onCopy={() => recordUse([entry.id])}
+        />
+        <TagActions entries={[entry]} />
+        <EditActions entry={entry} />
+        <ContentActions entry={entry} />
+      </ActionPanel>
+    );
+  }
 
-      <List.Section title="Buckets">
-        {buckets
-          .filter((b) => b.items.length > 0)
-          .map((bucket) => (
+  const query = parseQuery(searchText);
+  if (tagFilter) query.tag = tagFilter.toLowerCase();
+  const tags = data ? allTags(data.history, data.buckets) : [];
+  const frequent = data ? frequentlyUsed(data.history, buckets, FREQUENT_COUNT) : [];
+  const everythingElse = mainSort === "frecency" ? byFrecency(uncategorized.slice(1)) : uncategorized.slice(1);
+  const isSearching = query.text.trim() !== "" || hasFilters(query);
+
+  function searchResults() {
+    const bucketMatches = hasFilters(query)
+      ? []
+      : buckets
+          .map((bucket) => ({ bucket, match: fuzzyMatch(query.text, bucket.name) }))
+          .filter(({ match }) => match && match.score > 0)
+          .sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0));
+    const results = searchEntries(query, uncategorized, buckets);
+
+    return (
+      <>
+        <List.Section title="Buckets">
+          {bucketMatches.map(({ bucket }) => (
             <List.Item
               key={`bucket-${bucket.id}`}
               id={`bucket-${bucket.id}`}
-              icon={Icon.Folder}
+              icon={{ source: bucket.icon, tintColor: bucket.color }}
               title={bucket.name}
-              subtitle={`${bucket.items.length} item${bucket.items.length !== 1 ? "s" : ""}`}
-              keywords={bucket.items.map((t) => t.replace(/\n/g, " ").trim())}
+              subtitle={breadcrumb(buckets, bucket.id)}
               detail={<List.Item.Detail markdown={bucketMarkdown(bucket)} />}
-              actions={
-                <ActionPanel>
-                  <Action title="Open Bucket" icon={Icon.ArrowRight} onAction={() => openBucket(bucket)} />
-                  <Action
-                    title="Rename Bucket"
-                    icon={Icon.Pencil}
-                    onAction={() =>
-                      push(
-                        <BucketNameForm initialName={bucket.name} onSubmit={(name) => renameBucket(bucket.id, name)} />,
-                      )
-                    }
-                  />
-                  <Action
-                    title="Delete Bucket"
-                    icon={Icon.Trash}
-                    style={Action.Style.Destructive}
-                    shortcut={{ modifiers: ["cmd"], key: "backspace" }}
-                    onAction={() => deleteBucket(bucket.id)}
-                  />
-                </ActionPanel>
-              }
-            />
-          ))}
-      </List.Section>
-
-      {uncategorized.length > 1 && (
-        <List.Section title="Everything Else">
-          {uncategorized.slice(1).map((text, i) => (
-            <List.Item
-              key={`older-${i}`}
-              id={`older-${i}`}
-              icon={selectedItems.includes(text) ? Icon.CheckCircle : Icon.Clipboard}
-              title={truncate(text)}
-              subtitle={`${i + 1} ago`}
-              accessories={selectedItems.includes(text) ? [{ tag: String(selectedItems.indexOf(text) + 1) }] : []}
-              detail={<List.Item.Detail markdown={text} />}
-              actions={clipboardItemActions(text)}
+              actions={bucketActions(bucket)}
             />
           ))}
         </List.Section>
+        <List.Section title="Results" subtitle={String(results.length)}>
+          {results.map(({ entry, bucket, ranges }) =>
+            bucket ? (
+              <List.Item
+                key={`result-${entry.id}`}
+                id={`result-${entry.id}`}
+                icon={{ source: bucket.icon, tintColor: bucket.color }}
+                title={truncate(entryLabel(entry))}
+                accessories={[{ tag: breadcrumb(buckets, bucket.id) }]}
+                detail={<List.Item.Detail markdown={bucketMarkdown(bucket, { entryId: entry.id, ranges })} />}
+                actions={bucketedEntryActions(entry, bucket)}
+              />
+            ) : (
+              <List.Item
+                key={`result-${entry.id}`}
+                id={`result-${entry.id}`}
+                icon={
+                  selectedItems.includes(entry.id) ? Icon.CheckCircle : contentIcon(entry.contentType, entry.content)
+                }
+                title={truncate(entryLabel(entry))}
+                accessories={
+                  selectedItems.includes(entry.id)
+                    ? [{ tag: String(selectedItems.indexOf(entry.id) + 1) }]
+                    : entryAccessories(entry)
+                }
+                detail={<EntryDetail entry={entry} ranges={ranges} />}
+                actions={clipboardItemActions(entry)}
+              />
+            ),
+          )}
+        </List.Section>
+      </>
+    );
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder={
+        selectionMode
+          ? `Selection mode — ${selectedItems.length} selected`
+          : "Search, or filter with in: type: app: tag: before: after:"
+      }
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarAccessory={
+        tags.length > 0 ? (
+          <List.Dropdown tooltip="Filter by Tag" value={tagFilter} onChange={setTagFilter}>
+            <List.Dropdown.Item title="All Tags" value="" icon={Icon.Tag} />
+            {tags.map((tag) => (
+              <List.Dropdown.Item key={tag} title={tag} value={tag} />
+            ))}
+          </List.Dropdown>
+        ) : undefined
+      }
+      isShowingDetail
+    >
+      {isSearching ? (
+        searchResults()
+      ) : (
+        <>
+          <List.Section title="Latest Copied">
+            {uncategorized.length === 0 && !isLoading && (
+              <List.Item
+                id="empty-recent"
+                title="No uncategorized items"
+                icon={Icon.CheckCircle}
+                actions={
+                  <ActionPanel>
+                    {undoActions}
+                    {dataActions}
+                  </ActionPanel>
+                }
+              />
+            )}
+            {uncategorized.slice(0, 1).map((entry) => (
+              <List.Item
+                key={entry.id}
+                id={entry.id}
+                icon={
+                  selectedItems.includes(entry.id) ? Icon.CheckCircle : contentIcon(entry.contentType, entry.content)
+                }
+                title={truncate(entryLabel(entry))}
+                accessories={
+                  selectedItems.includes(entry.id)
+                    ? [{ tag: String(selectedItems.indexOf(entry.id) + 1) }]
+                    : entryAccessories(entry)
+                }
+                detail={<EntryDetail entry={entry} />}
+                actions={clipboardItemActions(entry)}
+              />
+            ))}
+          </List.Section>
+
+          {frequent.length > 0 && (
+            <List.Section title="Frequently Used">
+              {frequent.map(({ entry, bucket }) => (
+                <List.Item
+                  key={`frequent-${entry.id}`}
+                  id={`frequent-${entry.id}`}
+                  icon={
+                    bucket
+                      ? { source: bucket.icon, tintColor: bucket.color }
+                      : contentIcon(entry.contentType, entry.content)
+                  }
+                  title={truncate(entryLabel(entry))}
+                  accessories={bucket ? [{ tag: breadcrumb(buckets, bucket.id) }] : entryAccessories(entry)}
+                  detail={<EntryDetail entry={entry} />}
+                  actions={bucket ? bucketedEntryActions(entry, bucket) : clipboardItemActions(entry)}
+                />
+              ))}
+            </List.Section>
+          )}
+
+          <List.Section title="Buckets">
+            {childBuckets(buckets).map((bucket) => (
+              <List.Item
+                key={`bucket-${bucket.id}`}
+                id={`bucket-${bucket.id}`}
+                icon={{ source: bucket.icon, tintColor: bucket.color }}
+                title={bucket.name}
+                subtitle={bucketSummary(bucket, buckets)}
+                accessories={bucketAccessories(bucket)}
+                detail={<List.Item.Detail markdown={bucketMarkdown(bucket)} />}
+                actions={bucketActions(bucket)}
+              />
+            ))}
+          </List.Section>
+
+          {uncategorized.length > 1 && (
+            <List.Section title="Everything Else" subtitle={mainSort === "frecency" ? "Most used first" : undefined}>
+              {everythingElse.map((entry) => (
+                <List.Item
+                  key={entry.id}
+                  id={entry.id}
+                  icon={
+                    selectedItems.includes(entry.id) ? Icon.CheckCircle : contentIcon(entry.contentType, entry.content)
+                  }
+                  title={truncate(entryLabel(entry))}
+                  accessories={
+                    selectedItems.includes(entry.id)
+                      ? [{ tag: String(selectedItems.indexOf(entry.id) + 1) }]
+                      : entryAccessories(entry)
+                  }
+                  detail={<EntryDetail entry={entry} />}
+                  actions={clipboardItemActions(entry)}
+                />
+              ))}
+            </List.Section>
+          )}
+        </>
       )}
     </List>
   );
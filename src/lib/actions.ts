@@ -0,0 +1,93 @@
+import { Alert, confirmAlert, showToast, Toast } from "@raycast/api";
+import { entryLabel, truncate } from "./format";
+import { commit, Edit, redo, undo } from "./operations";
+import { ClipboardEntry } from "./storage";
+
+// Shared by every command that changes data, so each success toast can offer to undo it. Views pick up the
+// result through their repository subscription.
+
+// Saving can fail, for instance if another command changes the data at the same moment
+async function showFailure(title: string, error: unknown) {
+  await showToast({
+    style: Toast.Style.Failure,
+    title,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+export async function perform(title: string, edits: Edit[]): Promise<void> {
+  let undoable: boolean;
+  try {
+    undoable = await commit(title, edits);
+  } catch (error) {
+    return showFailure("Couldn't save the change", error);
+  }
+  // Permanent deletions aren't recorded, so there's nothing to offer to undo
+  if (!undoable) {
+    await showToast({ style: Toast.Style.Success, title });
+    return;
+  }
+  await showToast({
+    style: Toast.Style.Success,
+    title,
+    primaryAction: {
+      title: "Undo",
+      shortcut: { modifiers: ["cmd"], key: "z" },
+      onAction: (toast) => {
+        toast.hide();
+        undoLast();
+      },
+    },
+  });
+}
+
+export async function undoLast(): Promise<void> {
+  let label: string | undefined;
+  try {
+    label = await undo();
+  } catch (error) {
+    return showFailure("Couldn't undo", error);
+  }
+  if (!label) {
+    await showToast({ style: Toast.Style.Failure, title: "Nothing to undo" });
+    return;
+  }
+  await showToast({
+    style: Toast.Style.Success,
+    title: `Undid "${label}"`,
+    primaryAction: {
+      title: "Redo",
+      shortcut: { modifiers: ["cmd", "shift"], key: "z" },
+      onAction: (toast) => {
+        toast.hide();
+        redoLast();
+      },
+    },
+  });
+}
+
+export async function redoLast(): Promise<void> {
+  let label: string | undefined;
+  try {
+    label = await redo();
+  } catch (error) {
+    return showFailure("Couldn't redo", error);
+  }
+  if (!label) {
+    await showToast({ style: Toast.Style.Failure, title: "Nothing to redo" });
+    return;
+  }
+  await showToast({ style: Toast.Style.Success, title: `Redid "${label}"` });
+}
+
+/** Asks first, then moves the entry to the trash from wherever it is. Resolves to whether it was moved. */
+export async function trashEntry(entry: ClipboardEntry): Promise<boolean> {
+  const confirmed = await confirmAlert({
+    title: "Move Entry to Trash",
+    message: truncate(entryLabel(entry), 80),
+    primaryAction: { title: "Move to Trash", style: Alert.ActionStyle.Destructive },
+  });
+  if (!confirmed) return false;
+  await perform("Moved entry to Trash", [{ type: "entry", entry, place: { trash: true } }]);
+  return true;
+}
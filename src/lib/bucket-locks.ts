@@ -0,0 +1,40 @@
+import { LocalStorage } from "@raycast/api";
+import { checkPassphrase, hashPassphrase } from "./crypto";
+import { transaction } from "./repository";
+import { BucketMeta } from "./storage";
+
+/**
+ * Locked buckets keep their items out of search and previews until the passphrase is entered. One passphrase
+ * covers every locked bucket and only its hash is stored. Unlocking lasts until the command closes.
+ */
+
+const PASSPHRASE_KEY = "copy-notes-lock-passphrase";
+
+const unlocked = new Set<string>();
+
+export async function hasPassphrase(): Promise<boolean> {
+  return !!(await LocalStorage.getItem<string>(PASSPHRASE_KEY));
+}
+
+export async function setPassphrase(passphrase: string): Promise<void> {
+  await LocalStorage.setItem(PASSPHRASE_KEY, await hashPassphrase(passphrase));
+}
+
+/** Unlocks the bucket for the rest of this command if `passphrase` is right. */
+export async function unlock(bucketId: string, passphrase: string): Promise<boolean> {
+  const stored = await LocalStorage.getItem<string>(PASSPHRASE_KEY);
+  if (!stored || !(await checkPassphrase(passphrase, stored))) return false;
+  unlocked.add(bucketId);
+  return true;
+}
+
+export function isLocked(bucket: BucketMeta): boolean {
+  return !!bucket.locked && !unlocked.has(bucket.id);
+}
+
+// Not recorded for undo, so stepping back through history can't take a lock off
+export function setLocked(bucketId: string, locked: boolean): Promise<void> {
+  return transaction((data) => {
+    data.buckets = data.buckets.map((b) => (b.id === bucketId ? { ...b, locked: locked || undefined } : b));
+  });
+}
@@ -0,0 +1,27 @@
+import { byFrecency } from "./frecency";
+import { Bucket, ClipboardEntry } from "./storage";
+
+export type BucketSort = "manual" | "frecency" | "alphabetical" | "most-used" | "recent" | "length";
+
+export const BUCKET_SORTS: { value: BucketSort; title: string }[] = [
+  { value: "manual", title: "Manual Order" },
+  { value: "frecency", title: "Frequently Used" },
+  { value: "alphabetical", title: "Alphabetical" },
+  { value: "most-used", title: "Most Copied" },
+  { value: "recent", title: "Recently Used" },
+  { value: "length", title: "Length" },
+];
+
+const COMPARE: Record<Exclude<BucketSort, "manual" | "frecency">, (a: ClipboardEntry, b: ClipboardEntry) => number> = {
+  alphabetical: (a, b) => a.content.trim().localeCompare(b.content.trim(), undefined, { sensitivity: "base" }),
+  "most-used": (a, b) => b.copyCount - a.copyCount,
+  recent: (a, b) => b.lastCopiedAt - a.lastCopiedAt,
+  length: (a, b) => a.content.length - b.content.length,
+};
+
+/** A bucket's items in the order its sort mode shows them. Manual order is the order they're stored in. */
+export function sortedItems(bucket: Bucket): ClipboardEntry[] {
+  const sort = bucket.sort ?? "manual";
+  if (sort === "frecency") return byFrecency(bucket.items);
+  return sort === "manual" ? bucket.items : [...bucket.items].sort(COMPARE[sort]);
+}
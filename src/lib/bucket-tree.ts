@@ -0,0 +1,38 @@
+import { Bucket, sortBuckets } from "./storage";
+
+/** Direct children of `parentId` (top-level buckets when omitted), in display order. */
+export function childBuckets(buckets: Bucket[], parentId?: string): Bucket[] {
+  return sortBuckets(buckets.filter((b) => b.parentId === parentId));
+}
+
+/** The chain of buckets from the top level down to `bucketId`, inclusive. */
+export function bucketPath(buckets: Bucket[], bucketId: string): Bucket[] {
+  const path: Bucket[] = [];
+  let current = buckets.find((b) => b.id === bucketId);
+  // Guard against cycles in hand-edited or corrupt data
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = buckets.find((b) => b.id === current?.parentId);
+  }
+  return path;
+}
+
+export function breadcrumb(buckets: Bucket[], bucketId: string): string {
+  return bucketPath(buckets, bucketId)
+    .map((b) => b.name)
+    .join(" › ");
+}
+
+/** Ids of every bucket nested anywhere below `bucketId`. */
+export function descendantIds(buckets: Bucket[], bucketId: string): Set<string> {
+  const ids = new Set<string>();
+  const visit = (parentId: string) => {
+    for (const child of buckets.filter((b) => b.parentId === parentId)) {
+      if (ids.has(child.id)) continue;
+      ids.add(child.id);
+      visit(child.id);
+    }
+  };
+  visit(bucketId);
+  return ids;
+}
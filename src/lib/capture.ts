@@ -0,0 +1,161 @@
+import { Clipboard, getFrontmostApplication } from "@raycast/api";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+import { detectSensitive, isClipboardConcealed, sensitivePreferences } from "./sensitive";
+import { classify } from "./content-type";
+import { canonicalUrl } from "./duplicates";
+import { findViolations, isOversized, retentionPolicy } from "./retention";
+import { forget, LOG_KEY, logKey, OperationLog } from "./operation-log";
+import { evaluateRules, loadRules } from "./rules";
+import { readStaged, transaction } from "./repository";
+import { ClipboardEntry, SourceApp } from "./storage";
+
+// Raycast only exposes the last few clipboard entries (~5), so we read until an offset fails
+const MAX_OFFSET = 10;
+
+// What the clipboard held last time we looked, used to tell new copies apart from ones already counted
+const SNAPSHOT_KEY = "copy-notes-clipboard-snapshot";
+
+interface ClipboardItem {
+  content: string;
+  isFile: boolean;
+}
+
+export async function readClipboard(): Promise<ClipboardItem[]> {
+  const fresh: ClipboardItem[] = [];
+  for (let offset = 0; offset < MAX_OFFSET; offset++) {
+    try {
+      const { text, file } = await Clipboard.read({ offset });
+      // Files and images are stored by path; copied images may have no text at all
+      const content = file ? (file.startsWith("file://") ? fileURLToPath(file) : file) : text?.trim();
+      if (content && !fresh.some((item) => item.content === content)) {
+        fresh.push({ content, isFile: !!file });
+      }
+    } catch {
+      break;
+    }
+  }
+  return fresh;
+}
+
+async function frontmostApp(): Promise<SourceApp | undefined> {
+  try {
+    const { name, bundleId, path } = await getFrontmostApplication();
+    return { name, bundleId, path };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * What a copy has to share with a stored entry to count as the same: the canonical URL for links, so a link copied
+ * with other tracking parameters isn't stored twice, and otherwise the exact text. Anything looser, like case or
+ * whitespace, is left for the Duplicates view, where merging is the user's call.
+ */
+function matchKey({ content, contentType }: Pick<ClipboardEntry, "content" | "contentType">): string {
+  return contentType === "url" ? (canonicalUrl(content) ?? content.trim()) : content.trim();
+}
+
+/**
+ * Items copied since the last snapshot: everything in front of the previous head.
+ * Without a snapshot we can't tell, so only content we've never stored counts as new.
+ */
+function newCopies(fresh: ClipboardItem[], snapshot: string[] | undefined, isStored: (item: ClipboardItem) => boolean) {
+  if (!snapshot) return fresh.filter((item) => !isStored(item));
+  const previousHead = fresh.findIndex((item) => item.content === snapshot[0]);
+  return previousHead === -1 ? fresh : fresh.slice(0, previousHead);
+}
+
+/**
+ * Reads the clipboard and merges new copies into the persisted history. Content that's already
+ * stored — in history or in a bucket, or the same link with other tracking parameters — is updated in
+ * place rather than duplicated, and history entries move back to the front. New copies that look
+ * like secrets are skipped, masked or given an expiry depending on preferences, then the bucketing
+ * rules get a say. Expired entries, and anything beyond the retention limits, are dropped.
+ */
+export async function captureClipboard(): Promise<void> {
+  const fresh = await readClipboard();
+  // AppleScript can be slow, so it's asked before taking the lock. The frontmost app only matters for the newest copy.
+  const [app, concealed] = await Promise.all([frontmostApp(), isClipboardConcealed()]);
+
+  await transaction(async (data, stage) => {
+    const storedSnapshot = await readStaged<string[]>(SNAPSHOT_KEY);
+    const now = Date.now();
+
+    // Expiry only applies to history; filing an entry into a bucket keeps it
+    const previous = data.history;
+    const history = previous.filter((e) => !e.expiresAt || e.expiresAt > now);
+    data.history = history;
+
+    // History comes first, so an entry there wins over a filed copy
+    const stored = new Map<string, ClipboardEntry>();
+    [...data.buckets.flatMap((b) => b.items), ...history].forEach((e) => stored.set(matchKey(e), e));
+    const findStored = (item: ClipboardItem) =>
+      stored.get(matchKey({ content: item.content, contentType: classify(item.content, item.isFile).contentType }));
+
+    const copies = newCopies(fresh, storedSnapshot, (item) => !!findStored(item));
+    stage(
+      SNAPSHOT_KEY,
+      fresh.map((item) => item.content),
+    );
+    const policy = retentionPolicy();
+    // Keeps history within the retention limits, so it can't grow without bound. What's dropped, expired entries
+    // included, is gone for good, so it's scrubbed from the operation log like a permanent delete.
+    const enforceRetention = async () => {
+      const violations = findViolations(data.history, data.buckets, policy, now);
+      if (violations.size > 0) data.history = data.history.filter((e) => !violations.has(e.id));
+      const kept = new Set(data.history.map((e) => e.id));
+      const dropped = previous.filter((e) => !kept.has(e.id)).map((e) => logKey("entry", e.id));
+      const log = dropped.length > 0 ? await readStaged<OperationLog>(LOG_KEY) : undefined;
+      if (log) stage(LOG_KEY, forget(log, new Set(dropped)));
+    };
+    if (copies.length === 0) return enforceRetention();
+
+    const { handling, ttl } = sensitivePreferences();
+    const rules = await loadRules();
+    const front: ClipboardEntry[] = [];
+
+    for (const [i, item] of copies.entries()) {
+      const sourceApp = i === 0 ? app : undefined;
+      const existing = findStored(item);
+      if (!existing) {
+        if (isOversized(item.content, policy)) continue;
+        const sensitive = i === 0 && concealed ? "Password manager" : detectSensitive(item.content);
+        if (sensitive && handling === "skip") continue;
+        const entry: ClipboardEntry = {
+          id: randomUUID(),
+          content: item.content,
+          ...classify(item.content, item.isFile),
+          firstCopiedAt: now,
+          lastCopiedAt: now,
+          copyCount: 1,
+          sourceApp,
+          sensitive,
+          expiresAt: sensitive && handling === "expire" ? now + ttl : undefined,
+        };
+
+        const outcome = evaluateRules(rules, entry, now);
+        if (outcome.skip) continue;
+        if (outcome.tags.length > 0) entry.tags = outcome.tags;
+        if (outcome.expiresAt) entry.expiresAt = Math.min(entry.expiresAt ?? Infinity, outcome.expiresAt);
+        // Entries due to expire stay in history, where expiry is enforced, rather than being kept for good
+        const bucket = !entry.expiresAt && data.buckets.find((b) => b.id === outcome.bucketId);
+        if (bucket) {
+          bucket.items.unshift(entry);
+        } else {
+          front.push(entry);
+        }
+        stored.set(matchKey(entry), entry);
+        continue;
+      }
+      // Entries in buckets are updated in place in the draft, so they're saved along with it
+      existing.lastCopiedAt = now;
+      existing.copyCount += 1;
+      if (sourceApp) existing.sourceApp = sourceApp;
+      if (history.includes(existing)) front.push(existing);
+    }
+
+    data.history = [...front, ...history.filter((e) => !front.includes(e))];
+    await enforceRetention();
+  });
+}
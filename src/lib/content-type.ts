@@ -0,0 +1,156 @@
+import { Icon, Image } from "@raycast/api";
+
+export type ContentType = "text" | "url" | "email" | "code" | "color" | "json" | "path" | "image" | "file";
+
+export const CONTENT_TYPES: Record<ContentType, { title: string; icon: Icon }> = {
+  text: { title: "Text", icon: Icon.Text },
+  url: { title: "URL", icon: Icon.Link },
+  email: { title: "Email", icon: Icon.Envelope },
+  code: { title: "Code", icon: Icon.Code },
+  color: { title: "Colour", icon: Icon.CircleFilled },
+  json: { title: "JSON", icon: Icon.CodeBlock },
+  path: { title: "File Path", icon: Icon.Finder },
+  image: { title: "Image", icon: Icon.Image },
+  file: { title: "File", icon: Icon.Document },
+};
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|heic|tiff?|bmp|svg)$/i;
+
+const URL = /^(?:https?:\/\/|www\.)\S+$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_COLOR = /^(?:rgba?|hsla?)\(\s*[\d.]+%?\s*,?\s*[\d.]+%?\s*,?\s*[\d.]+%?\s*(?:[,/]\s*[\d.]+%?\s*)?\)$/i;
+const PATH = /^(?:~|\/)[^\n\0]*[^/\s]$/;
+
+// Checked in order, so more distinctive languages come first. Two or more hits makes it code.
+const LANGUAGES: { language: string; patterns: RegExp[] }[] = [
+  {
+    language: "sql",
+    patterns: [
+      /\bselect\b[\s\S]+\bfrom\b/i,
+      /\b(?:insert into|update \w+ set|delete from)\b/i,
+      /\bwhere\b/i,
+      /\bjoin\b/i,
+    ],
+  },
+  { language: "html", patterns: [/<\/?[a-z][\w-]*(?:\s[^>]*)?>/i, /<\/[a-z][\w-]*>/i, /<!doctype html>/i] },
+  {
+    language: "typescript",
+    patterns: [
+      /\b(?:interface|type) \w+\s*[={<]/,
+      /:\s*(?:string|number|boolean)\b/,
+      /\bimport .+ from ["']/,
+      /\bexport (?:const|function|default)\b/,
+    ],
+  },
+  {
+    language: "javascript",
+    patterns: [/\b(?:const|let|var) \w+\s*=/, /=>/, /\bfunction\s*\w*\(/, /\bconsole\.\w+\(/, /\brequire\(["']/],
+  },
+  {
+    language: "python",
+    patterns: [
+      /^\s*def \w+\(.*\):/m,
+      /^\s*(?:from \w+ )?import \w+/m,
+      /\bself\b/,
+      /^\s*(?:if|for|while) .+:\s*$/m,
+      /\bprint\(/,
+    ],
+  },
+  { language: "go", patterns: [/^package \w+/m, /\bfunc (?:\(\w+ \*?\w+\) )?\w+\(/, /:=/, /\bfmt\.\w+\(/] },
+  { language: "rust", patterns: [/\bfn \w+\(/, /\blet mut\b/, /\bimpl\b/, /\w+!\(/] },
+  {
+    language: "swift",
+    patterns: [/\bfunc \w+\(/, /\b(?:let|var) \w+: \w+/, /\bguard\b/, /\bimport (?:Foundation|SwiftUI|UIKit)\b/],
+  },
+  { language: "css", patterns: [/[.#]?[\w-]+\s*\{[^}]*\}/, /^\s*[\w-]+\s*:\s*[^;]+;\s*$/m] },
+  {
+    language: "shell",
+    patterns: [
+      /^#!\/(?:usr\/)?bin\/\w+/,
+      /^\s*\$ /m,
+      /\b(?:sudo|grep|echo|export|cd|ls|curl|npm|git|brew)\b/,
+      /(?:&&|\|\||\s\|\s)/,
+    ],
+  },
+];
+
+/** Best guess at the programming language of `text`, if it looks like code at all. */
+export function guessLanguage(text: string): string | undefined {
+  let best: { language: string; hits: number } | undefined;
+  for (const { language, patterns } of LANGUAGES) {
+    const hits = patterns.filter((pattern) => pattern.test(text)).length;
+    if (hits >= 2 && hits > (best?.hits ?? 0)) best = { language, hits };
+  }
+  return best?.language;
+}
+
+function parseJson(text: string): unknown {
+  if (!/^[[{]/.test(text)) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Works out what kind of content a clipboard entry holds. `isFile` is set when it was copied as a file. */
+export function classify(content: string, isFile = false): { contentType: ContentType; language?: string } {
+  const text = content.trim();
+  if (isFile) return { contentType: IMAGE_EXTENSIONS.test(text) ? "image" : "file" };
+  if (!text.includes("\n")) {
+    if (URL.test(text)) return { contentType: "url" };
+    if (EMAIL.test(text)) return { contentType: "email" };
+    if (HEX_COLOR.test(text) || FUNCTION_COLOR.test(text)) return { contentType: "color" };
+    if (PATH.test(text)) return { contentType: IMAGE_EXTENSIONS.test(text) ? "image" : "path" };
+  }
+  if (typeof parseJson(text) === "object") return { contentType: "json" };
+  const language = guessLanguage(text);
+  return language ? { contentType: "code", language } : { contentType: "text" };
+}
+
+export function prettyJson(text: string): string | undefined {
+  const parsed = parseJson(text.trim());
+  return parsed === undefined ? undefined : JSON.stringify(parsed, null, 2);
+}
+
+export function minifiedJson(text: string): string | undefined {
+  const parsed = parseJson(text.trim());
+  return parsed === undefined ? undefined : JSON.stringify(parsed);
+}
+
+/** Expands `~` so paths can be handed to Finder. */
+export function expandPath(path: string): string {
+  return path.startsWith("~") ? path.replace(/^~/, process.env.HOME ?? "~") : path;
+}
+
+export function toUrl(text: string): string {
+  return /^https?:\/\//i.test(text) ? text : `https://${text}`;
+}
+
+/** `#rgb`/`#rrggbb` → `rgb(r, g, b)`, or undefined for anything else. */
+export function hexToRgb(hex: string): string | undefined {
+  const match = hex.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return undefined;
+  const digits = match[1].length === 3 ? [...match[1]].map((d) => d + d).join("") : match[1];
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/** `rgb(r, g, b)` → `#rrggbb`, or undefined for anything else. */
+export function rgbToHex(rgb: string): string | undefined {
+  const match = rgb.match(/^rgba?\(\s*(\d+)\s*,?\s*(\d+)\s*,?\s*(\d+)/i);
+  if (!match) return undefined;
+  return (
+    "#" +
+    match
+      .slice(1, 4)
+      .map((n) => Math.min(255, Number(n)).toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+export function contentIcon(contentType: ContentType, content: string): Image.ImageLike {
+  if (contentType === "color") return { source: Icon.CircleFilled, tintColor: content.trim() };
+  return CONTENT_TYPES[contentType]?.icon ?? Icon.Clipboard;
+}
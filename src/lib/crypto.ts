@@ -0,0 +1,90 @@
+import { execFile } from "child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+/**
+ * Encryption for everything Copy Notes keeps in LocalStorage. Values are sealed with AES-256-GCM under a random key
+ * that lives in the login keychain, so the data is unreadable without the user's keychain.
+ */
+
+const run = promisify(execFile);
+const derive = promisify(scrypt) as (password: string, salt: Buffer, length: number) => Promise<Buffer>;
+
+const KEYCHAIN_SERVICE = "Copy Notes";
+const KEYCHAIN_ACCOUNT = "storage-key";
+// `security` exits with this when the item doesn't exist yet
+const ITEM_NOT_FOUND = 44;
+
+const PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+let key: Promise<Buffer> | undefined;
+
+async function loadKey(): Promise<Buffer> {
+  try {
+    const { stdout } = await run("security", [
+      "find-generic-password",
+      "-s",
+      KEYCHAIN_SERVICE,
+      "-a",
+      KEYCHAIN_ACCOUNT,
+      "-w",
+    ]);
+    return Buffer.from(stdout.trim(), "hex");
+  } catch (error) {
+    // Anything other than a missing item (a denied prompt, say) must not replace the key the data is sealed with
+    if ((error as { code?: number }).code !== ITEM_NOT_FOUND) throw error;
+  }
+  const fresh = randomBytes(32);
+  // Given as a command on stdin rather than an argument, so the key never shows up in the process list
+  const adding = run("security", ["-i"]);
+  adding.child.stdin?.end(
+    `add-generic-password -s "${KEYCHAIN_SERVICE}" -a "${KEYCHAIN_ACCOUNT}" -w ${fresh.toString("hex")}\n`,
+  );
+  // Interactive mode exits cleanly even when a command fails, and reports the failure on stderr
+  const { stderr } = await adding;
+  if (stderr.trim()) throw new Error(`Couldn't save the storage key to the keychain: ${stderr.trim()}`);
+  return fresh;
+}
+
+/** The key, loaded from the keychain the first time. That can prompt the user, so it's best done before taking the lock. */
+export function storageKey(): Promise<Buffer> {
+  key ??= loadKey().catch((error) => {
+    key = undefined;
+    throw error;
+  });
+  return key;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export async function encrypt(text: string): Promise<string> {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", await storageKey(), iv);
+  const sealed = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString("base64");
+}
+
+/** Opens a value sealed by `encrypt`. Values stored before encryption existed are passed through. */
+export async function decrypt(value: string): Promise<string> {
+  if (!isEncrypted(value)) return value;
+  const bytes = Buffer.from(value.slice(PREFIX.length), "base64");
+  const decipher = createDecipheriv("aes-256-gcm", await storageKey(), bytes.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString("utf8");
+}
+
+/** A salted scrypt hash of `passphrase`, as stored for checking it later. */
+export async function hashPassphrase(passphrase: string, salt = randomBytes(16)): Promise<string> {
+  const hash = await derive(passphrase, salt, 32);
+  return `${salt.toString("base64")}:${hash.toString("base64")}`;
+}
+
+export async function checkPassphrase(passphrase: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":").map((part) => Buffer.from(part, "base64"));
+  const candidate = await derive(passphrase, salt, 32);
+  return candidate.length === hash.length && timingSafeEqual(candidate, hash);
+}
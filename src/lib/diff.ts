@@ -0,0 +1,45 @@
+export interface DiffLine {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+// The table below grows with the product of both line counts, so bigger texts are shown as a plain replacement
+const MAX_CELLS = 1_000_000;
+
+/** A line-by-line diff of two texts, built from their longest common subsequence. */
+export function lineDiff(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ kind: "removed", text })),
+      ...b.map((text): DiffLine => ({ kind: "added", text })),
+    ];
+  }
+
+  // common[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ kind: "removed", text: a[i++] });
+    } else {
+      lines.push({ kind: "added", text: b[j++] });
+    }
+  }
+  a.slice(i).forEach((text) => lines.push({ kind: "removed", text }));
+  b.slice(j).forEach((text) => lines.push({ kind: "added", text }));
+  return lines;
+}
@@ -0,0 +1,184 @@
+import { LocalStorage } from "@raycast/api";
+import { isLocked } from "./bucket-locks";
+import { toUrl } from "./content-type";
+import { Edit } from "./operations";
+import { Bucket, ClipboardEntry } from "./storage";
+
+/**
+ * Finds entries that are the same thing copied slightly differently: a URL with other tracking parameters, or a
+ * snippet that only differs in whitespace or case. Longer text also counts when it's nearly identical.
+ */
+
+// Only text at least this long is compared by similarity; shorter text has to normalize to the same thing
+const FUZZY_MIN_LENGTH = 40;
+// Comparing is quadratic in the text, so very long entries are only matched exactly
+const FUZZY_MAX_LENGTH = 5000;
+const SIMILARITY_THRESHOLD = 0.9;
+
+const IGNORED_KEY = "copy-notes-duplicates-ignored";
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref_src|_hsenc|_hsmi|yclid)$/i;
+
+export interface DuplicateMember {
+  entry: ClipboardEntry;
+  // Unset for history
+  bucket?: Bucket;
+}
+
+/** The same URL however it was copied: no tracking parameters or fragment, sorted query, lowercase host. */
+export function canonicalUrl(text: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(toUrl(text.trim()));
+  } catch {
+    return undefined;
+  }
+  [...url.searchParams.keys()]
+    .filter((key) => TRACKING_PARAMS.test(key))
+    .forEach((key) => url.searchParams.delete(key));
+  url.searchParams.sort();
+  url.hash = "";
+  const path = url.pathname.replace(/\/+$/, "");
+  return `${url.protocol}//${url.host.toLowerCase().replace(/^www\./, "")}${path}${url.search}`;
+}
+
+/** What two entries are compared on: canonical URLs, and otherwise text with whitespace and case folded. */
+export function normalize(entry: ClipboardEntry): string {
+  if (entry.contentType === "url") return canonicalUrl(entry.content) ?? entry.content.trim();
+  return entry.content.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Dice coefficient over character pairs: 1 for identical text, 0 for nothing in common. */
+export function similarity(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of a) {
+    shared += Math.min(count, b.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of b.values()) total += count;
+  return total === 0 ? 1 : (2 * shared) / total;
+}
+
+/**
+ * Groups of entries that look like duplicates, biggest group first. Entries in locked buckets are left out, as is
+ * anything listed in `ignored` (group keys from `groupKey`).
+ */
+export function findDuplicates(
+  history: ClipboardEntry[],
+  buckets: Bucket[],
+  ignored: string[] = [],
+): DuplicateMember[][] {
+  const members: DuplicateMember[] = [
+    ...buckets.filter((b) => !isLocked(b)).flatMap((bucket) => bucket.items.map((entry) => ({ entry, bucket }))),
+    ...history.map((entry) => ({ entry })),
+  ];
+  const keys = members.map((m) => normalize(m.entry));
+
+  // Union-find over member indexes
+  const parent = members.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  const join = (a: number, b: number) => (parent[root(a)] = root(b));
+
+  const byKey = new Map<string, number>();
+  keys.forEach((key, i) => {
+    const seen = byKey.get(key);
+    if (seen === undefined) byKey.set(key, i);
+    else join(i, seen);
+  });
+
+  // Sorted by length, so each entry only has to be compared with the ones close enough in length to be similar
+  const fuzzy = keys
+    .map((key, i) => ({ i, key }))
+    .filter(({ key, i }) => members[i].entry.contentType !== "url" && key.length >= FUZZY_MIN_LENGTH)
+    .filter(({ key }) => key.length <= FUZZY_MAX_LENGTH)
+    .sort((a, b) => a.key.length - b.key.length);
+  const pairs = fuzzy.map(({ key }) => bigrams(key));
+  for (let a = 0; a < fuzzy.length; a++) {
+    for (let b = a + 1; b < fuzzy.length; b++) {
+      if (fuzzy[a].key.length < fuzzy[b].key.length * SIMILARITY_THRESHOLD) break;
+      if (root(fuzzy[a].i) === root(fuzzy[b].i)) continue;
+      if (similarity(pairs[a], pairs[b]) >= SIMILARITY_THRESHOLD) join(fuzzy[a].i, fuzzy[b].i);
+    }
+  }
+
+  const groups = new Map<number, DuplicateMember[]>();
+  members.forEach((member, i) => groups.set(root(i), [...(groups.get(root(i)) ?? []), member]));
+  return [...groups.values()]
+    .filter((group) => group.length > 1 && !ignored.includes(groupKey(group)))
+    .sort((a, b) => b.length - a.length);
+}
+
+/** Identifies a group by its entries, so a dismissed group stays dismissed until its members change. */
+export function groupKey(group: DuplicateMember[]): string {
+  return group
+    .map((m) => m.entry.id)
+    .sort()
+    .join(",");
+}
+
+export async function loadIgnored(): Promise<string[]> {
+  const stored = await LocalStorage.getItem<string>(IGNORED_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export async function saveIgnored(ignored: string[]): Promise<void> {
+  await LocalStorage.setItem(IGNORED_KEY, JSON.stringify(ignored));
+}
+
+/** The version worth keeping: one that's been filed or pinned, then the most copied, then the most recent. */
+export function bestMember(group: DuplicateMember[]): DuplicateMember {
+  const rank = (m: DuplicateMember) => [
+    m.bucket ? 1 : 0,
+    m.entry.pinned ? 1 : 0,
+    m.entry.copyCount,
+    m.entry.lastCopiedAt,
+  ];
+  return [...group].sort((a, b) => {
+    const [x, y] = [rank(a), rank(b)];
+    const i = x.findIndex((value, n) => value !== y[n]);
+    return i === -1 ? 0 : y[i] - x[i];
+  })[0];
+}
+
+/**
+ * Merges a group into `keep`: it takes on the combined copy count, dates, tags and pin, and if it isn't filed but
+ * another version is, it moves into that version's place in the bucket. The other versions go to the trash.
+ */
+export function mergeEdits(group: DuplicateMember[], keep: DuplicateMember): Edit[] {
+  const entries = group.map((m) => m.entry);
+  const tags = [...new Set(entries.flatMap((e) => e.tags ?? []))];
+  const filed = keep.bucket ? undefined : group.find((m) => m.bucket);
+  const place = filed?.bucket && {
+    bucketId: filed.bucket.id,
+    index: filed.bucket.items.findIndex((e) => e.id === filed.entry.id),
+  };
+
+  return [
+    // Trashed first, so the filed version's index is free by the time the kept one moves in
+    ...group
+      .filter((m) => m.entry.id !== keep.entry.id)
+      .map((m): Edit => ({ type: "entry", entry: m.entry, place: { trash: true } })),
+    {
+      type: "entry",
+      entry: keep.entry,
+      place,
+      update: {
+        copyCount: entries.reduce((sum, e) => sum + e.copyCount, 0),
+        firstCopiedAt: Math.min(...entries.map((e) => e.firstCopiedAt)),
+        lastCopiedAt: Math.max(...entries.map((e) => e.lastCopiedAt)),
+        tags: tags.length > 0 ? tags : undefined,
+        pinned: entries.some((e) => e.pinned) || undefined,
+      },
+    },
+  ];
+}
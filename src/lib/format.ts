@@ -0,0 +1,119 @@
+import { pathToFileURL } from "url";
+import { Bucket, ClipboardEntry } from "./storage";
+import { isLocked } from "./bucket-locks";
+import { sortedItems } from "./bucket-sort";
+import { breadcrumb } from "./bucket-tree";
+import { expandPath, prettyJson, toUrl } from "./content-type";
+import { lineDiff } from "./diff";
+import { maskContent } from "./sensitive";
+
+export function truncate(text: string, max = 60): string {
+  const single = text.replace(/\n/g, " ").trim();
+  return single.length <= max ? single : single.substring(0, max) + "...";
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/** The text to show for an entry — its content, or a mask if it looks like a secret. */
+export function displayText(entry: ClipboardEntry): string {
+  return entry.sensitive ? maskContent(entry.content, entry.sensitive) : entry.content;
+}
+
+/** What an entry is listed as: the title it was given, or else its text. */
+export function entryLabel(entry: ClipboardEntry): string {
+  return entry.title?.trim() || displayText(entry);
+}
+
+export type MatchRange = [start: number, end: number];
+
+/** Bolds the matched ranges, for use in detail markdown. */
+export function highlight(text: string, ranges: MatchRange[]): string {
+  let result = "";
+  let last = 0;
+  for (const [start, end] of ranges) {
+    result += text.slice(last, start) + `**${text.slice(start, end)}**`;
+    last = end;
+  }
+  return result + text.slice(last);
+}
+
+const fence = (text: string, language = "") => {
+  // Use a longer fence than any backtick run in the content so it can't close early
+  const ticks = "`".repeat(Math.max(3, ...[...text.matchAll(/`+/g)].map(([run]) => run.length + 1)));
+  return `${ticks}${language}\n${text}\n${ticks}`;
+};
+
+/** The changes from `before` to `after`, as a fenced `diff` block. */
+export function diffMarkdown(before: string, after: string): string {
+  const marks = { same: " ", added: "+", removed: "-" };
+  return fence(
+    lineDiff(before, after)
+      .map((line) => marks[line.kind] + line.text)
+      .join("\n"),
+    "diff",
+  );
+}
+
+/**
+ * Detail markdown for an entry, rendered to suit its type. Search matches are only highlighted in prose —
+ * inside code blocks the markers would show up literally.
+ */
+export function entryMarkdown(entry: ClipboardEntry, ranges?: MatchRange[]): string {
+  if (entry.sensitive) return displayText(entry);
+  const text = entry.content;
+  switch (entry.contentType) {
+    case "code":
+      return fence(text, entry.language);
+    case "json":
+      return fence(prettyJson(text) ?? text, "json");
+    case "color":
+      return `## ${text}`;
+    case "image":
+      return `![${text}](${pathToFileURL(expandPath(text)).href})`;
+    case "path":
+    case "file":
+      return fence(text);
+    case "url":
+      return `[${ranges ? highlight(text, ranges) : text}](${toUrl(text)})`;
+    default:
+      return ranges ? highlight(text, ranges) : text;
+  }
+}
+
+/** Numbered list of a bucket's items, or a placeholder while it's locked. When `match` is given, that item is marked and its matched text highlighted. */
+export function bucketMarkdown(bucket: Bucket, match?: { entryId: string; ranges: MatchRange[] }): string {
+  if (isLocked(bucket)) return "🔒 _Locked — open the bucket to enter the passphrase_";
+  return itemsMarkdown(bucket, match, true);
+}
+
+// Titles stand in for the text in the preview; exports keep the text itself
+function itemsMarkdown(bucket: Bucket, match?: { entryId: string; ranges: MatchRange[] }, titled = false): string {
+  if (bucket.items.length === 0) return "_Empty_";
+  return sortedItems(bucket)
+    .map((item, i) => {
+      const title = titled && item.title?.trim();
+      // Newlines become spaces one-for-one, so match ranges still line up
+      const text = title || displayText(item).replace(/\n/g, " ");
+      // Ranges are into the text, so a title is marked but not highlighted
+      const ranges = title ? [] : (match?.ranges ?? []);
+      return item.id === match?.entryId
+        ? `➤ **${i + 1}.** ${highlight(text, ranges).trim()}`
+        : `**${i + 1}.** ${text.trim()}`;
+    })
+    .join("\n\n");
+}
+
+/** A standalone Markdown document for a bucket, headed by its full path. */
+export function bucketDocument(bucket: Bucket, buckets: Bucket[]): string {
+  return `# ${breadcrumb(buckets, bucket.id)}\n\n${itemsMarkdown(bucket)}\n`;
+}
@@ -0,0 +1,80 @@
+import { LocalStorage } from "@raycast/api";
+import { isLocked } from "./bucket-locks";
+import { transaction } from "./repository";
+import { Bucket, ClipboardEntry } from "./storage";
+
+/**
+ * Ranks entries by how often and how recently they've been pasted or copied from Copy Notes. Each use counts for
+ * less the older it gets, so last month's favourite gives way to this week's.
+ */
+
+const MAIN_SORT_KEY = "copy-notes-main-sort";
+
+// Enough uses to tell a daily snippet from an occasional one
+const MAX_USES = 20;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Weight of a use by its age, as in browser address bar ranking
+const AGE_WEIGHTS: [maxAge: number, weight: number][] = [
+  [4 * DAY, 100],
+  [14 * DAY, 70],
+  [31 * DAY, 50],
+  [90 * DAY, 30],
+];
+const OLD_WEIGHT = 10;
+
+export type MainSort = "recent" | "frecency";
+
+const weight = (time: number, now: number) => AGE_WEIGHTS.find(([maxAge]) => now - time < maxAge)?.[1] ?? OLD_WEIGHT;
+
+/** Higher for entries used more, and more recently. Being captured counts as a use too. */
+export function frecency(entry: ClipboardEntry, now = Date.now()): number {
+  return [...(entry.uses ?? []), entry.lastCopiedAt].reduce((score, time) => score + weight(time, now), 0);
+}
+
+export function byFrecency(entries: ClipboardEntry[], now = Date.now()): ClipboardEntry[] {
+  const scores = new Map(entries.map((e) => [e.id, frecency(e, now)]));
+  return [...entries].sort(
+    (a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0) || b.lastCopiedAt - a.lastCopiedAt,
+  );
+}
+
+/** The most used entries anywhere, filed or not. Entries in locked buckets are left out. */
+export function frequentlyUsed(
+  history: ClipboardEntry[],
+  buckets: Bucket[],
+  limit: number,
+): { entry: ClipboardEntry; bucket?: Bucket }[] {
+  const bucketOf = new Map(
+    buckets.flatMap((bucket) => bucket.items.map((entry): [string, Bucket] => [entry.id, bucket])),
+  );
+  const candidates = [...buckets.filter((b) => !isLocked(b)).flatMap((b) => b.items), ...history].filter(
+    (entry, i, all) => entry.uses?.length && all.findIndex((e) => e.id === entry.id) === i,
+  );
+  return byFrecency(candidates)
+    .slice(0, limit)
+    .map((entry) => ({ entry, bucket: bucketOf.get(entry.id) }));
+}
+
+/**
+ * Notes that entries were just pasted or copied. It's bookkeeping rather than an edit, so it isn't recorded for
+ * undo, and a failure never gets in the way of the paste itself.
+ */
+export async function recordUse(ids: string[]): Promise<void> {
+  const now = Date.now();
+  const use = (entry: ClipboardEntry) =>
+    ids.includes(entry.id) ? { ...entry, uses: [now, ...(entry.uses ?? [])].slice(0, MAX_USES) } : entry;
+  await transaction((data) => {
+    data.history = data.history.map(use);
+    data.buckets = data.buckets.map((b) => ({ ...b, items: b.items.map(use) }));
+  }).catch(() => undefined);
+}
+
+export async function loadMainSort(): Promise<MainSort> {
+  return (await LocalStorage.getItem<MainSort>(MAIN_SORT_KEY)) ?? "recent";
+}
+
+export async function saveMainSort(sort: MainSort): Promise<void> {
+  await LocalStorage.setItem(MAIN_SORT_KEY, sort);
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from "crypto";
+import { Color, Icon } from "@raycast/api";
+import { classify } from "./content-type";
+import type { Bucket, ClipboardEntry } from "./storage";
+
+/** Raw JSON as read from LocalStorage, before it's known to match the current schema. */
+export interface StoredData {
+  history: unknown;
+  buckets: unknown;
+}
+
+export type Migration = (data: StoredData) => StoredData;
+
+// v1 → v2: plain strings become structured entries. The original copy times are unknown,
+// so they're spaced a second apart to keep the stored order when sorting by recency.
+function toStructuredEntries(data: StoredData): StoredData {
+  const now = Date.now();
+  const toEntry = (content: string, index: number): ClipboardEntry => ({
+    id: randomUUID(),
+    content,
+    contentType: "text",
+    firstCopiedAt: now - index * 1000,
+    lastCopiedAt: now - index * 1000,
+    copyCount: 1,
+  });
+
+  const buckets = (data.buckets as { id: number; name: string; items: string[] }[]).map((bucket) => ({
+    ...bucket,
+    items: bucket.items.map(toEntry),
+  }));
+
+  // v1 history could still hold text that had been moved into a bucket
+  const bucketed = new Set(buckets.flatMap((b) => b.items.map((e) => e.content)));
+  const history = (data.history as string[]).filter((text) => !bucketed.has(text)).map(toEntry);
+
+  return { history, buckets };
+}
+
+// v2 → v3: the five fixed slots become a free list of buckets with stable ids. Unused slots are
+// dropped; a slot that somehow lost its name but still holds items is kept under a placeholder.
+function toUnlimitedBuckets(data: StoredData): StoredData {
+  const palette = [Color.Blue, Color.Green, Color.Orange, Color.Purple, Color.Magenta];
+  const slots = data.buckets as { id: number; name: string; items: ClipboardEntry[] }[];
+  const buckets: Bucket[] = slots
+    .filter((slot) => slot.name || slot.items.length > 0)
+    .map((slot) => ({
+      id: randomUUID(),
+      name: slot.name || `Bucket ${slot.id + 1}`,
+      color: palette[slot.id % palette.length],
+      icon: Icon.Folder,
+      pinned: false,
+      items: slot.items,
+    }));
+  return { ...data, buckets };
+}
+
+// v3 → v4: "text" splits into URLs, code, colours and so on; copied files are told apart from images
+function classifyEntries(data: StoredData): StoredData {
+  const reclassify = (entry: ClipboardEntry): ClipboardEntry => ({
+    ...entry,
+    ...classify(entry.content, entry.contentType === "file"),
+  });
+  return {
+    history: (data.history as ClipboardEntry[]).map(reclassify),
+    buckets: (data.buckets as Bucket[]).map((bucket) => ({ ...bucket, items: bucket.items.map(reclassify) })),
+  };
+}
+
+/** Ordered list of migrations — the entry at index `i` upgrades schema version `i + 1` to `i + 2`. */
+export const migrations: Migration[] = [toStructuredEntries, toUnlimitedBuckets, classifyEntries];
@@ -0,0 +1,57 @@
+import { BucketMeta, ClipboardEntry } from "./storage";
+
+/**
+ * The shape of the undo and redo stacks. It's kept apart from `operations` so the repository and capture, which
+ * remove things outside the log, can scrub them from it without importing the module that writes it.
+ */
+
+export const LOG_KEY = "copy-notes-operation-log";
+
+/** Where an entry lives: a bucket, history (no `bucketId`), or the trash. */
+export type Place = { bucketId?: string; index: number } | { trash: true };
+
+/** Where a bucket lives: its position in the bucket list, or the trash. */
+export type BucketPlace = { index: number } | { trash: true };
+
+export interface EntryState {
+  entry: ClipboardEntry;
+  place: Place;
+}
+
+export interface BucketState {
+  bucket: BucketMeta;
+  place: BucketPlace;
+}
+
+/** A recorded change. A missing side means the entry or bucket didn't exist (or no longer exists). */
+export type Change =
+  | { type: "entry"; before?: EntryState; after?: EntryState }
+  | { type: "bucket"; before?: BucketState; after?: BucketState };
+
+export interface Operation {
+  label: string;
+  changes: Change[];
+}
+
+export interface OperationLog {
+  undo: Operation[];
+  redo: Operation[];
+}
+
+/** The key `changeKey` gives every change to the entry or bucket `id`. */
+export const logKey = (type: Change["type"], id: string) => `${type}:${id}`;
+
+export const changeKey = (change: Change) =>
+  `${change.type}:${change.type === "entry" ? (change.before ?? change.after)?.entry.id : (change.before ?? change.after)?.bucket.id}`;
+
+/**
+ * Drops every change to the entries and buckets in `forgotten` (see `logKey`), and any operation left with none.
+ * Called whenever something is deleted for good, so the log never keeps a copy of it.
+ */
+export function forget(log: OperationLog, forgotten: Set<string>): OperationLog {
+  const scrub = (operations: Operation[]) =>
+    operations
+      .map((operation) => ({ ...operation, changes: operation.changes.filter((c) => !forgotten.has(changeKey(c))) }))
+      .filter((operation) => operation.changes.length > 0);
+  return { undo: scrub(log.undo), redo: scrub(log.redo) };
+}
@@ -0,0 +1,170 @@
+import {
+  BucketPlace,
+  BucketState,
+  Change,
+  changeKey,
+  EntryState,
+  forget,
+  LOG_KEY,
+  OperationLog,
+  Place,
+} from "./operation-log";
+import { readStaged, StoreData, transaction } from "./repository";
+import { Bucket, BucketMeta, ClipboardEntry } from "./storage";
+
+const MAX_OPERATIONS = 50;
+
+/**
+ * What callers ask for. Only the outcome is given — where things were beforehand is looked up when the
+ * operation is committed. `null` deletes for good; anything without a place stays where it is. A bucket only
+ * needs the fields that change, and an entry's changed fields go in `update`.
+ */
+export type Edit =
+  | { type: "entry"; entry: ClipboardEntry; place?: Place | null; update?: Partial<ClipboardEntry> }
+  | { type: "bucket"; bucket: Partial<BucketMeta> & { id: string }; place?: BucketPlace | null };
+
+export function bucketMeta({ id, name, color, icon, pinned, parentId, locked, sort, synced }: Bucket): BucketMeta {
+  return { id, name, color, icon, pinned, parentId, locked, sort, synced };
+}
+
+const isTrash = (place: Place | BucketPlace): place is { trash: true } => "trash" in place;
+
+async function loadLog(): Promise<OperationLog> {
+  return (await readStaged<OperationLog>(LOG_KEY)) ?? { undo: [], redo: [] };
+}
+
+function findEntry(state: StoreData, id: string): EntryState | undefined {
+  const inHistory = state.history.findIndex((e) => e.id === id);
+  if (inHistory !== -1) return { entry: state.history[inHistory], place: { index: inHistory } };
+  for (const bucket of state.buckets) {
+    const index = bucket.items.findIndex((e) => e.id === id);
+    if (index !== -1) return { entry: bucket.items[index], place: { bucketId: bucket.id, index } };
+  }
+  const trashed = state.trash.entries.find((t) => t.entry.id === id);
+  return trashed && { entry: trashed.entry, place: { trash: true } };
+}
+
+function findBucket(state: StoreData, id: string): BucketState | undefined {
+  const index = state.buckets.findIndex((b) => b.id === id);
+  if (index !== -1) return { bucket: bucketMeta(state.buckets[index]), place: { index } };
+  const trashed = state.trash.buckets.find((t) => t.bucket.id === id);
+  return trashed && { bucket: trashed.bucket, place: { trash: true } };
+}
+
+// Entries are removed by id from wherever they are, so an entry can never end up in two places
+function removeEntry(state: StoreData, id: string) {
+  state.history = state.history.filter((e) => e.id !== id);
+  state.buckets = state.buckets.map((b) => ({ ...b, items: b.items.filter((e) => e.id !== id) }));
+  state.trash.entries = state.trash.entries.filter((t) => t.entry.id !== id);
+}
+
+function insertEntry(state: StoreData, { entry, place }: EntryState, origin?: Place) {
+  if (isTrash(place)) {
+    const from = origin && !isTrash(origin) ? origin : { index: 0 };
+    state.trash.entries.unshift({ entry, deletedAt: Date.now(), origin: from });
+    return;
+  }
+  // If the bucket has gone since, the entry falls back to history
+  const bucket = place.bucketId ? state.buckets.find((b) => b.id === place.bucketId) : undefined;
+  const list = bucket ? [...bucket.items] : [...state.history];
+  list.splice(Math.min(place.index, list.length), 0, entry);
+  if (bucket) {
+    state.buckets = state.buckets.map((b) => (b === bucket ? { ...b, items: list } : b));
+  } else {
+    state.history = list;
+  }
+}
+
+function applyChange(state: StoreData, change: Change) {
+  if (change.type === "entry") {
+    // An entry that's edited while in the trash keeps the place it would be restored to
+    const trashed = change.before && state.trash.entries.find((t) => t.entry.id === change.before?.entry.id);
+    if (change.before) removeEntry(state, change.before.entry.id);
+    if (change.after) insertEntry(state, change.after, trashed?.origin ?? change.before?.place);
+    return;
+  }
+
+  const id = (change.before ?? change.after)?.bucket.id;
+  const current = state.buckets.find((b) => b.id === id);
+  const items = current?.items ?? [];
+  // Locks are set outside the log, so a bucket keeps the lock it has now whichever way it's moved
+  const existing = current ?? state.trash.buckets.find((t) => t.bucket.id === id)?.bucket;
+  const previousIndex = change.before && !isTrash(change.before.place) ? change.before.place.index : 0;
+  state.buckets = state.buckets.filter((b) => b.id !== id);
+  state.trash.buckets = state.trash.buckets.filter((t) => t.bucket.id !== id);
+  if (!change.after) return;
+
+  const meta = existing ? { ...change.after.bucket, locked: existing.locked } : change.after.bucket;
+  if (isTrash(change.after.place)) {
+    state.trash.buckets.unshift({ bucket: meta, deletedAt: Date.now(), index: previousIndex });
+  } else {
+    const bucket = { ...meta, items };
+    state.buckets.splice(Math.min(change.after.place.index, state.buckets.length), 0, bucket);
+  }
+}
+
+// Callers may hold an outdated copy (a pushed view, say), so the stored entry and bucket fields win unless changed
+function resolve(state: StoreData, edit: Edit): Change {
+  if (edit.type === "entry") {
+    const before = findEntry(state, edit.entry.id);
+    const place = edit.place === undefined ? before?.place : edit.place;
+    // Expiry only applies to history, so filing an entry keeps it for good and it no longer has a deletion time
+    const filed = place && !isTrash(place) && place.bucketId;
+    const entry = { ...(before?.entry ?? edit.entry), ...edit.update, ...(filed && { expiresAt: undefined }) };
+    return { type: "entry", before, after: place ? { entry, place } : undefined };
+  }
+  const before = findBucket(state, edit.bucket.id);
+  const bucket = { ...before?.bucket, ...edit.bucket } as BucketMeta;
+  const place = edit.place === undefined ? (before?.place ?? { index: state.buckets.length }) : edit.place;
+  return { type: "bucket", before, after: place ? { bucket, place } : undefined };
+}
+
+const invert = (change: Change): Change => ({ ...change, before: change.after, after: change.before }) as Change;
+
+/**
+ * Applies `edits` in order, saves the result and records it so it can be undone. Permanent deletions can't be
+ * undone: they're left out of the record, and what they deleted is scrubbed from earlier operations too, so no copy
+ * of it is kept. Resolves to whether anything was recorded.
+ */
+export function commit(label: string, edits: Edit[]): Promise<boolean> {
+  return transaction(async (data, stage) => {
+    const changes = edits.map((edit) => {
+      const change = resolve(data, edit);
+      applyChange(data, change);
+      return change;
+    });
+    const deleted = new Set(changes.filter((c) => c.before && !c.after).map(changeKey));
+    const kept = changes.filter((c) => !deleted.has(changeKey(c)));
+
+    const { undo } = forget(await loadLog(), deleted);
+    if (kept.length > 0) undo.push({ label, changes: kept });
+    stage(LOG_KEY, { undo: undo.slice(-MAX_OPERATIONS), redo: [] });
+    return kept.length > 0;
+  });
+}
+
+/** Reverts the most recent operation. Resolves to its label, or undefined if there's nothing to undo. */
+export function undo(): Promise<string | undefined> {
+  return transaction(async (data, stage) => {
+    const log = await loadLog();
+    const operation = log.undo.pop();
+    if (!operation) return undefined;
+
+    [...operation.changes].reverse().forEach((change) => applyChange(data, invert(change)));
+    stage(LOG_KEY, { undo: log.undo, redo: [...log.redo, operation] });
+    return operation.label;
+  });
+}
+
+/** Re-applies the most recently undone operation. */
+export function redo(): Promise<string | undefined> {
+  return transaction(async (data, stage) => {
+    const log = await loadLog();
+    const operation = log.redo.pop();
+    if (!operation) return undefined;
+
+    operation.changes.forEach((change) => applyChange(data, change));
+    stage(LOG_KEY, { undo: [...log.undo, operation], redo: log.redo });
+    return operation.label;
+  });
+}
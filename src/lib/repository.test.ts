@@ -0,0 +1,281 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ClipboardEntry } from "./storage";
+
+// LocalStorage is an in-memory map, and encryption a reversible tag, so the tests run without Raycast or a keychain
+const storage = vi.hoisted(() => new Map<string, string | number>());
+
+vi.mock("@raycast/api", () => {
+  const names = new Proxy({}, { get: (_, name) => name });
+  return {
+    Color: names,
+    Icon: names,
+    getPreferenceValues: () => ({ trashRetentionDays: "30" }),
+    LocalStorage: {
+      getItem: async (key: string) => storage.get(key),
+      setItem: async (key: string, value: string | number) => void storage.set(key, value),
+      removeItem: async (key: string) => void storage.delete(key),
+    },
+  };
+});
+
+vi.mock("./crypto", () => ({
+  isEncrypted: (value: string) => value.startsWith("enc:"),
+  encrypt: async (text: string) => `enc:${Buffer.from(text).toString("base64")}`,
+  decrypt: async (value: string) => {
+    if (!value.startsWith("enc:")) return value;
+    if (value === "enc:unreadable") throw new Error("Wrong key");
+    return Buffer.from(value.slice(4), "base64").toString();
+  },
+  storageKey: async () => Buffer.alloc(32),
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const sealed = (value: unknown) => `enc:${Buffer.from(JSON.stringify(value)).toString("base64")}`;
+const unsealed = (key: string) => JSON.parse(Buffer.from(String(storage.get(key)).slice(4), "base64").toString());
+
+const entry = (id: string, content = id): ClipboardEntry => ({
+  id,
+  content,
+  contentType: "text",
+  firstCopiedAt: 1,
+  lastCopiedAt: 1,
+  copyCount: 1,
+});
+
+// The repository keeps per-command state (the queue, whether it has migrated), so each test gets a fresh copy
+async function load() {
+  vi.resetModules();
+  const [repository, keys] = await Promise.all([import("./repository"), import("./storage")]);
+  return { ...repository, ...keys };
+}
+
+async function seed(values: { history?: unknown; buckets?: unknown; trash?: unknown }) {
+  const { HISTORY_KEY, STORAGE_KEY, TRASH_KEY, SCHEMA_VERSION, SCHEMA_VERSION_KEY } = await import("./storage");
+  storage.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+  if (values.history !== undefined) storage.set(HISTORY_KEY, sealed(values.history));
+  if (values.buckets !== undefined) storage.set(STORAGE_KEY, sealed(values.buckets));
+  if (values.trash !== undefined) storage.set(TRASH_KEY, sealed(values.trash));
+}
+
+beforeEach(() => storage.clear());
+
+describe("migrations", () => {
+  it("upgrades plain strings and fixed slots to the current schema", async () => {
+    const { read, HISTORY_KEY, STORAGE_KEY, SCHEMA_VERSION, SCHEMA_VERSION_KEY } = await load();
+    storage.set(HISTORY_KEY, JSON.stringify(["https://example.com", "filed"]));
+    storage.set(
+      STORAGE_KEY,
+      JSON.stringify([
+        { id: 0, name: "Work", items: ["filed"] },
+        { id: 1, name: "", items: [] },
+      ]),
+    );
+
+    const data = await read();
+
+    expect(data.history.map((e) => [e.content, e.contentType])).toEqual([["https://example.com", "url"]]);
+    expect(data.buckets).toHaveLength(1);
+    expect(data.buckets[0]).toMatchObject({ name: "Work", pinned: false });
+    expect(data.buckets[0].items.map((e) => e.content)).toEqual(["filed"]);
+    expect(storage.get(SCHEMA_VERSION_KEY)).toBe(SCHEMA_VERSION);
+    expect(String(storage.get(HISTORY_KEY))).toMatch(/^enc:/);
+  });
+
+  it("leaves data that's already current alone", async () => {
+    await seed({ history: [entry("a")], buckets: [] });
+    const { read } = await load();
+    expect((await read()).history).toEqual([entry("a")]);
+  });
+});
+
+describe("validation", () => {
+  it("keeps the valid entries of a damaged collection and backs up the original", async () => {
+    await seed({ history: [entry("a"), { id: "broken" }], buckets: [] });
+    const { read, takeRecovered, HISTORY_KEY } = await load();
+    const original = storage.get(HISTORY_KEY);
+
+    expect((await read()).history).toEqual([entry("a")]);
+    expect(takeRecovered()).toEqual(["history"]);
+    expect(storage.get(`${HISTORY_KEY}-corrupt`)).toBe(original);
+    expect(unsealed(HISTORY_KEY)).toEqual([entry("a")]);
+  });
+
+  it("treats JSON that doesn't parse as empty, keeping a backup", async () => {
+    const { read, takeRecovered, STORAGE_KEY, SCHEMA_VERSION, SCHEMA_VERSION_KEY } = await load();
+    storage.set(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+    storage.set(STORAGE_KEY, "enc:" + Buffer.from("[{").toString("base64"));
+
+    expect((await read()).buckets).toEqual([]);
+    expect(takeRecovered()).toEqual(["buckets"]);
+    expect(storage.has(`${STORAGE_KEY}-corrupt`)).toBe(true);
+  });
+
+  it("fails rather than wiping data it can't decrypt", async () => {
+    await seed({ buckets: [] });
+    const { read, HISTORY_KEY } = await load();
+    storage.set(HISTORY_KEY, "enc:unreadable");
+
+    await expect(read()).rejects.toThrow("Wrong key");
+    expect(storage.get(HISTORY_KEY)).toBe("enc:unreadable");
+    expect(storage.has(`${HISTORY_KEY}-corrupt`)).toBe(false);
+  });
+
+  it("encrypts values saved before encryption existed", async () => {
+    await seed({ buckets: [] });
+    const { read, HISTORY_KEY } = await load();
+    storage.set(HISTORY_KEY, JSON.stringify([entry("a")]));
+
+    expect((await read()).history).toEqual([entry("a")]);
+    expect(unsealed(HISTORY_KEY)).toEqual([entry("a")]);
+  });
+
+  it("saves the trash purge instead of only leaving old items out of the read", async () => {
+    const now = Date.now();
+    const trash = {
+      entries: [
+        { entry: entry("old"), deletedAt: now - 40 * DAY, origin: { index: 0 } },
+        { entry: entry("new"), deletedAt: now - DAY, origin: { index: 0 } },
+      ],
+      buckets: [],
+    };
+    await seed({ history: [], buckets: [], trash });
+    const { read, TRASH_KEY } = await load();
+
+    expect((await read()).trash.entries.map((t) => t.entry.id)).toEqual(["new"]);
+    expect(unsealed(TRASH_KEY).entries.map((t: { entry: { id: string } }) => t.entry.id)).toEqual(["new"]);
+  });
+
+  it("scrubs what the trash purge removed from the operation log", async () => {
+    const now = Date.now();
+    const trashed = (id: string) => ({
+      type: "entry",
+      before: { entry: entry(id), place: { index: 0 } },
+      after: { entry: entry(id), place: { trash: true } },
+    });
+    const trash = {
+      entries: [
+        { entry: entry("old"), deletedAt: now - 40 * DAY, origin: { index: 0 } },
+        { entry: entry("new"), deletedAt: now - DAY, origin: { index: 0 } },
+      ],
+      buckets: [],
+    };
+    await seed({ history: [], buckets: [], trash });
+    storage.set(
+      "copy-notes-operation-log",
+      sealed({
+        undo: [
+          { label: "Delete Old", changes: [trashed("old")] },
+          { label: "Delete Both", changes: [trashed("old"), trashed("new")] },
+        ],
+        redo: [],
+      }),
+    );
+    const { read } = await load();
+
+    await read();
+
+    expect(unsealed("copy-notes-operation-log")).toEqual({
+      undo: [{ label: "Delete Both", changes: [trashed("new")] }],
+      redo: [],
+    });
+  });
+});
+
+describe("transaction", () => {
+  it("saves changed collections and staged keys, and tells subscribers", async () => {
+    await seed({ history: [], buckets: [] });
+    const { transaction, subscribe, HISTORY_KEY, STORAGE_KEY } = await load();
+    const listener = vi.fn();
+    subscribe(listener);
+    const bucketsBefore = storage.get(STORAGE_KEY);
+
+    const result = await transaction((data, stage) => {
+      data.history.push(entry("a"));
+      stage("extra-key", { note: 1 });
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(unsealed(HISTORY_KEY)).toEqual([entry("a")]);
+    expect(unsealed("extra-key")).toEqual({ note: 1 });
+    expect(storage.get(STORAGE_KEY)).toBe(bucketsBefore);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(storage.has("copy-notes-journal")).toBe(false);
+  });
+
+  it("writes nothing and tells no one when nothing changed", async () => {
+    await seed({ history: [entry("a")], buckets: [] });
+    const { transaction, subscribe, HISTORY_KEY } = await load();
+    const listener = vi.fn();
+    subscribe(listener);
+    const before = storage.get(HISTORY_KEY);
+
+    await transaction(() => undefined);
+
+    expect(storage.get(HISTORY_KEY)).toBe(before);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("runs transactions one at a time, so none of them loses another's change", async () => {
+    await seed({ history: [], buckets: [] });
+    const { transaction, read } = await load();
+
+    await Promise.all(
+      ["a", "b", "c"].map((id) =>
+        transaction(async (data) => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          data.history.push(entry(id));
+        }),
+      ),
+    );
+
+    expect((await read()).history.map((e) => e.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("finishes the writes of a transaction that was interrupted", async () => {
+    await seed({ history: [], buckets: [] });
+    const { read, HISTORY_KEY } = await load();
+    storage.set("copy-notes-journal", JSON.stringify({ [HISTORY_KEY]: sealed([entry("a")]) }));
+
+    expect((await read()).history).toEqual([entry("a")]);
+    expect(storage.has("copy-notes-journal")).toBe(false);
+  });
+});
+
+describe("lock", () => {
+  it("waits for another command's lock to be released", async () => {
+    await seed({ history: [], buckets: [] });
+    const { transaction } = await load();
+    storage.set("copy-notes-lock", JSON.stringify({ owner: "other", expires: Date.now() + 5000 }));
+    setTimeout(() => storage.delete("copy-notes-lock"), 150);
+
+    const started = Date.now();
+    await transaction((data) => void data.history.push(entry("a")));
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(140);
+    expect(storage.has("copy-notes-lock")).toBe(false);
+  });
+
+  it("takes over a lock left behind by a command that died", async () => {
+    await seed({ history: [], buckets: [] });
+    const { read } = await load();
+    storage.set("copy-notes-lock", JSON.stringify({ owner: "other", expires: Date.now() - 1 }));
+
+    await expect(read()).resolves.toBeDefined();
+  });
+
+  it("refuses to save if another command took the lock over in the meantime", async () => {
+    await seed({ history: [], buckets: [] });
+    const { transaction, HISTORY_KEY } = await load();
+    const before = storage.get(HISTORY_KEY);
+
+    const attempt = transaction((data) => {
+      storage.set("copy-notes-lock", JSON.stringify({ owner: "other", expires: Date.now() + 5000 }));
+      data.history.push(entry("a"));
+    });
+
+    await expect(attempt).rejects.toThrow("changed by another command");
+    expect(storage.get(HISTORY_KEY)).toBe(before);
+  });
+});
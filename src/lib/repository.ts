@@ -0,0 +1,275 @@
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { randomUUID } from "crypto";
+import { decrypt, encrypt, isEncrypted, storageKey } from "./crypto";
+import { migrations, StoredData } from "./migrations";
+import { forget, LOG_KEY, logKey, OperationLog } from "./operation-log";
+import {
+  Bucket,
+  ClipboardEntry,
+  HISTORY_KEY,
+  isBucket,
+  isClipboardEntry,
+  SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  STORAGE_KEY,
+  Trash,
+  TRASH_KEY,
+} from "./storage";
+
+/**
+ * The single owner of persisted entries and buckets. Every change goes through `transaction`, which runs one at a
+ * time — within a command via a queue, and across commands (the background capture can run while the list is
+ * open) via a lock in LocalStorage. A transaction's writes land together or not at all: they're journaled first and
+ * the journal is replayed if a command dies half way through. Everything but the schema version is encrypted before
+ * it's journaled, so no plaintext reaches disk.
+ */
+
+export interface StoreData {
+  history: ClipboardEntry[];
+  buckets: Bucket[];
+  trash: Trash;
+}
+
+type Collection = keyof StoreData;
+
+const KEYS: Record<Collection, string> = { history: HISTORY_KEY, buckets: STORAGE_KEY, trash: TRASH_KEY };
+
+const JOURNAL_KEY = "copy-notes-journal";
+const LOCK_KEY = "copy-notes-lock";
+
+// A lock older than this belongs to a command that was killed, so it's taken over. Live holders renew it well before.
+const LOCK_TTL = 5000;
+const LOCK_RENEW = LOCK_TTL / 5;
+const LOCK_POLL = 50;
+
+type Listener = (data: StoreData) => void;
+
+const listeners = new Set<Listener>();
+const recovered: Collection[] = [];
+const owner = randomUUID();
+let queue: Promise<unknown> = Promise.resolve();
+let migrated = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function acquireLock(): Promise<void> {
+  for (;;) {
+    const stored = await LocalStorage.getItem<string>(LOCK_KEY);
+    const held: { owner: string; expires: number } | undefined = stored ? JSON.parse(stored) : undefined;
+    if (!held || held.owner === owner || held.expires < Date.now()) {
+      await LocalStorage.setItem(LOCK_KEY, JSON.stringify({ owner, expires: Date.now() + LOCK_TTL }));
+      // LocalStorage has no compare-and-set, so give a competing claim time to land and check ours survived
+      await sleep(LOCK_POLL / 2);
+      const check = await LocalStorage.getItem<string>(LOCK_KEY);
+      if (check && JSON.parse(check).owner === owner) return;
+    }
+    await sleep(LOCK_POLL);
+  }
+}
+
+const ownsLock = async () => {
+  const stored = await LocalStorage.getItem<string>(LOCK_KEY);
+  return !!stored && JSON.parse(stored).owner === owner;
+};
+
+// Keeps the lock from expiring while a slow transaction still holds it. Stops once the lock is lost.
+function renewLock(): () => void {
+  const timer = setInterval(async () => {
+    if (await ownsLock()) {
+      await LocalStorage.setItem(LOCK_KEY, JSON.stringify({ owner, expires: Date.now() + LOCK_TTL }));
+    } else {
+      clearInterval(timer);
+    }
+  }, LOCK_RENEW);
+  return () => clearInterval(timer);
+}
+
+async function releaseLock(): Promise<void> {
+  if (await ownsLock()) await LocalStorage.removeItem(LOCK_KEY);
+}
+
+const encode = (value: unknown) => encrypt(JSON.stringify(value));
+
+async function writeAll(values: Record<string, string | number>): Promise<void> {
+  await LocalStorage.setItem(JOURNAL_KEY, JSON.stringify(values));
+  for (const [key, value] of Object.entries(values)) await LocalStorage.setItem(key, value);
+  await LocalStorage.removeItem(JOURNAL_KEY);
+}
+
+// Finishes the writes of a transaction that was interrupted
+async function replayJournal(): Promise<void> {
+  const journal = await LocalStorage.getItem<string>(JOURNAL_KEY);
+  if (journal) await writeAll(JSON.parse(journal));
+}
+
+async function migrate(): Promise<void> {
+  const version = (await LocalStorage.getItem<number>(SCHEMA_VERSION_KEY)) ?? 1;
+  if (version >= SCHEMA_VERSION) return;
+
+  const raw = async (key: string) => {
+    const value = await LocalStorage.getItem<string>(key);
+    return value ? JSON.parse(await decrypt(value)) : [];
+  };
+  let data: StoredData = { history: await raw(HISTORY_KEY), buckets: await raw(STORAGE_KEY) };
+  for (const step of migrations.slice(version - 1)) data = step(data);
+
+  await writeAll({
+    [HISTORY_KEY]: await encode(data.history),
+    [STORAGE_KEY]: await encode(data.buckets),
+    [SCHEMA_VERSION_KEY]: SCHEMA_VERSION,
+  });
+}
+
+// Keeps whatever is still valid. Only a bucket's own fields have to be intact; its broken items are dropped.
+const VALIDATORS: Record<Collection, (value: unknown) => unknown> = {
+  history: (value) => (Array.isArray(value) ? value.filter(isClipboardEntry) : []),
+  buckets: (value) =>
+    Array.isArray(value)
+      ? value
+          .map((b) => (b && Array.isArray(b.items) ? { ...b, items: b.items.filter(isClipboardEntry) } : b))
+          .filter(isBucket)
+      : [],
+  trash: (value) => {
+    const trash = value as Partial<Trash> | null;
+    return {
+      entries: Array.isArray(trash?.entries) ? trash.entries.filter((t) => isClipboardEntry(t?.entry)) : [],
+      buckets: Array.isArray(trash?.buckets) ? trash.buckets.filter((t) => typeof t?.bucket?.id === "string") : [],
+    };
+  },
+};
+
+/**
+ * Parses and validates one collection. If the stored JSON is corrupt, the valid parts are kept and the original
+ * is backed up under `<key>-corrupt` so nothing is lost for good. A value that can't be decrypted is an error rather
+ * than corruption: it's left alone so a missing keychain item doesn't wipe the data.
+ */
+async function readCollection<K extends Collection>(collection: K): Promise<StoreData[K]> {
+  const key = KEYS[collection];
+  const stored = await LocalStorage.getItem<string>(key);
+  if (!stored) return VALIDATORS[collection](undefined) as StoreData[K];
+
+  const text = await decrypt(stored);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = undefined;
+  }
+  const valid = VALIDATORS[collection](parsed) as StoreData[K];
+  if (JSON.stringify(valid) !== JSON.stringify(parsed)) {
+    await LocalStorage.setItem(`${key}-corrupt`, stored);
+    await LocalStorage.setItem(key, await encode(valid));
+    recovered.push(collection);
+  } else if (!isEncrypted(stored)) {
+    // Saved before encryption was added
+    await LocalStorage.setItem(key, await encode(valid));
+  }
+  return valid;
+}
+
+// Drops anything that has been in the trash longer than the retention preference
+function purgeTrash(trash: Trash): Trash {
+  const days = Number(getPreferenceValues<Preferences>().trashRetentionDays);
+  if (!Number.isFinite(days) || days <= 0) return trash;
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  return {
+    entries: trash.entries.filter((t) => t.deletedAt > cutoff),
+    buckets: trash.buckets.filter((t) => t.deletedAt > cutoff),
+  };
+}
+
+async function load(): Promise<StoreData> {
+  await replayJournal();
+  if (!migrated) {
+    await migrate();
+    migrated = true;
+  }
+  const trash = await readCollection("trash");
+  const purged = purgeTrash(trash);
+  // Saved straight away, so what's purged is gone from storage too and not just from this read. Undo can't bring
+  // it back either, so it's scrubbed from the operation log the same way a permanent delete is.
+  if (purged.entries.length !== trash.entries.length || purged.buckets.length !== trash.buckets.length) {
+    const forgotten = new Set([
+      ...trash.entries.filter((t) => !purged.entries.includes(t)).map((t) => logKey("entry", t.entry.id)),
+      ...trash.buckets.filter((t) => !purged.buckets.includes(t)).map((t) => logKey("bucket", t.bucket.id)),
+    ]);
+    const log = await readStaged<OperationLog>(LOG_KEY);
+    await writeAll({
+      [KEYS.trash]: await encode(purged),
+      ...(log && { [LOG_KEY]: await encode(forget(log, forgotten)) }),
+    });
+  }
+  return {
+    history: await readCollection("history"),
+    buckets: await readCollection("buckets"),
+    trash: purged,
+  };
+}
+
+// Reads are locked too, so they never see a transaction from another command half written
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(async () => {
+    // Reading the key from the keychain can wait on the user, so it's never done while holding the lock
+    await storageKey();
+    await acquireLock();
+    const stopRenewing = renewLock();
+    try {
+      return await task();
+    } finally {
+      stopRenewing();
+      await releaseLock();
+    }
+  });
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+/** The current data. Waits for transactions already queued in this command. */
+export function read(): Promise<StoreData> {
+  return enqueue(load);
+}
+
+/**
+ * Runs `update` on a copy of the current data and saves whatever it changed. Pass extra LocalStorage keys that
+ * belong with the change to `stage` so they're written in the same step. Subscribers get the saved data.
+ */
+export function transaction<T>(
+  update: (draft: StoreData, stage: (key: string, value: unknown) => void) => T | Promise<T>,
+): Promise<T> {
+  return enqueue(async () => {
+    const current = await load();
+    const before = Object.fromEntries(Object.entries(current).map(([k, v]) => [k, JSON.stringify(v)]));
+    const draft = structuredClone(current);
+    const staged: Record<string, unknown> = {};
+    const result = await update(draft, (key, value) => (staged[key] = value));
+
+    const changed = (Object.keys(KEYS) as Collection[]).filter((c) => JSON.stringify(draft[c]) !== before[c]);
+    const writes = { ...staged, ...Object.fromEntries(changed.map((c) => [KEYS[c], draft[c]])) };
+    if (Object.keys(writes).length > 0) {
+      const encoded = await Promise.all(Object.entries(writes).map(async ([key, value]) => [key, await encode(value)]));
+      // If another command took the lock over, it may have saved since we read, and writing now would undo that
+      if (!(await ownsLock()))
+        throw new Error("Copy Notes was changed by another command at the same time. Try again.");
+      await writeAll(Object.fromEntries(encoded));
+    }
+    if (changed.length > 0) listeners.forEach((listener) => listener(draft));
+    return result;
+  });
+}
+
+/** Reads a key written with `stage`. Only call it inside a transaction, where the key can't change underneath. */
+export async function readStaged<T>(key: string): Promise<T | undefined> {
+  const stored = await LocalStorage.getItem<string>(key);
+  return stored ? JSON.parse(await decrypt(stored)) : undefined;
+}
+
+/** Calls `listener` with the new data after every transaction in this command that changes it. */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Collections that had to be repaired since the last call, so the UI can say so once. */
+export function takeRecovered(): Collection[] {
+  return recovered.splice(0);
+}
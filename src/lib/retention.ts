@@ -0,0 +1,82 @@
+import { getPreferenceValues } from "@raycast/api";
+import { Bucket, ClipboardEntry } from "./storage";
+
+/** Limits on history. Unset limits don't apply. Entries in buckets and pinned entries are never affected. */
+export interface RetentionPolicy {
+  maxEntries?: number;
+  maxAgeDays?: number;
+  maxTotalBytes?: number;
+  maxEntryBytes?: number;
+}
+
+export type Violation = "count" | "age" | "size" | "entry-size";
+
+export const VIOLATIONS: Record<Violation, string> = {
+  count: "Beyond the entry limit",
+  age: "Too old",
+  size: "Beyond the total size limit",
+  "entry-size": "Too large",
+};
+
+const limit = (value: string | undefined, scale = 1) => {
+  const number = Number(value);
+  return value?.trim() && Number.isFinite(number) && number > 0 ? number * scale : undefined;
+};
+
+export function retentionPolicy(): RetentionPolicy {
+  const { historyMaxEntries, historyMaxAgeDays, historyMaxSizeMb, entryMaxSizeKb } = getPreferenceValues<Preferences>();
+  return {
+    maxEntries: limit(historyMaxEntries),
+    maxAgeDays: limit(historyMaxAgeDays),
+    maxTotalBytes: limit(historyMaxSizeMb, 1024 * 1024),
+    maxEntryBytes: limit(entryMaxSizeKb, 1024),
+  };
+}
+
+/** Roughly what an entry takes up in storage. */
+export function entryBytes(entry: ClipboardEntry): number {
+  return Buffer.byteLength(JSON.stringify(entry));
+}
+
+export function isOversized(content: string, policy: RetentionPolicy): boolean {
+  return policy.maxEntryBytes !== undefined && Buffer.byteLength(content) > policy.maxEntryBytes;
+}
+
+/**
+ * History entries that break the policy, with the first limit each one breaks. History is newest first, so the
+ * count and total size limits keep the most recent entries.
+ */
+export function findViolations(
+  history: ClipboardEntry[],
+  buckets: Bucket[],
+  policy: RetentionPolicy,
+  now = Date.now(),
+): Map<string, Violation> {
+  const bucketed = new Set(buckets.flatMap((b) => b.items.map((e) => e.id)));
+  const violations = new Map<string, Violation>();
+  const cutoff = policy.maxAgeDays !== undefined ? now - policy.maxAgeDays * 24 * 60 * 60 * 1000 : undefined;
+  let kept = 0;
+  let bytes = 0;
+
+  for (const entry of history) {
+    if (entry.pinned || bucketed.has(entry.id)) continue;
+    const size = entryBytes(entry);
+    const violation: Violation | undefined =
+      cutoff !== undefined && entry.lastCopiedAt < cutoff
+        ? "age"
+        : isOversized(entry.content, policy)
+          ? "entry-size"
+          : policy.maxEntries !== undefined && kept >= policy.maxEntries
+            ? "count"
+            : policy.maxTotalBytes !== undefined && bytes + size > policy.maxTotalBytes
+              ? "size"
+              : undefined;
+    if (violation) {
+      violations.set(entry.id, violation);
+    } else {
+      kept += 1;
+      bytes += size;
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,23 @@
+import { classify } from "./content-type";
+import { Edit } from "./operations";
+import { ClipboardEntry } from "./storage";
+
+const MAX_REVISIONS = 20;
+
+/**
+ * The edit that replaces an entry's text where it stands, keeping the text it had as a revision. Restoring a
+ * revision is an edit like any other, so the text it replaces can be restored in turn.
+ */
+export function reviseEntry(entry: ClipboardEntry, content: string, now = Date.now()): Edit {
+  const isFile = entry.contentType === "file" || entry.contentType === "image";
+  return {
+    type: "entry",
+    entry,
+    update: {
+      content,
+      language: undefined,
+      ...classify(content, isFile),
+      revisions: [{ content: entry.content, editedAt: now }, ...(entry.revisions ?? [])].slice(0, MAX_REVISIONS),
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { LocalStorage } from "@raycast/api";
+import { ContentType } from "./content-type";
+import { Edit } from "./operations";
+import { ClipboardEntry } from "./storage";
+
+const RULES_KEY = "copy-notes-rules";
+
+/** Every condition that's set has to match. A rule with no conditions matches everything. */
+export interface RuleConditions {
+  pattern?: string;
+  contentType?: ContentType;
+  app?: string;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export type RuleAction =
+  | { type: "file"; bucketId: string }
+  | { type: "tag"; tag: string }
+  | { type: "skip" }
+  | { type: "expire"; minutes: number };
+
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  action: RuleAction;
+}
+
+/** What the rules decided for one entry, and which rules decided it. */
+export interface RuleOutcome {
+  bucketId?: string;
+  tags: string[];
+  skip: boolean;
+  expiresAt?: number;
+  rules: Rule[];
+}
+
+export const RULE_ACTIONS: { type: RuleAction["type"]; title: string }[] = [
+  { type: "file", title: "File into bucket" },
+  { type: "tag", title: "Add tag" },
+  { type: "skip", title: "Don't save" },
+  { type: "expire", title: "Delete after a while" },
+];
+
+/** Checks a pattern before it's saved. Returns the error message, if any. */
+export function patternError(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function matchesRule(rule: Rule, entry: ClipboardEntry): boolean {
+  const { pattern, contentType, app, minLength, maxLength } = rule.conditions;
+  // A pattern that no longer compiles matches nothing rather than everything
+  if (pattern && (patternError(pattern) || !new RegExp(pattern, "i").test(entry.content))) return false;
+  if (contentType && entry.contentType !== contentType) return false;
+  if (app && !entry.sourceApp?.name.toLowerCase().includes(app.toLowerCase())) return false;
+  if (minLength !== undefined && entry.content.length < minLength) return false;
+  if (maxLength !== undefined && entry.content.length > maxLength) return false;
+  return true;
+}
+
+/**
+ * Runs the enabled rules over an entry in order. Tag rules add up; the first rule that files, skips or expires the
+ * entry settles it and stops the rest.
+ */
+export function evaluateRules(rules: Rule[], entry: ClipboardEntry, now = Date.now()): RuleOutcome {
+  const outcome: RuleOutcome = { tags: [], skip: false, rules: [] };
+  for (const rule of rules) {
+    if (!rule.enabled || !matchesRule(rule, entry)) continue;
+    outcome.rules.push(rule);
+    const { action } = rule;
+    if (action.type === "tag") {
+      if (!outcome.tags.includes(action.tag)) outcome.tags.push(action.tag);
+      continue;
+    }
+    if (action.type === "file") outcome.bucketId = action.bucketId;
+    if (action.type === "skip") outcome.skip = true;
+    if (action.type === "expire") outcome.expiresAt = now + action.minutes * 60 * 1000;
+    break;
+  }
+  return outcome;
+}
+
+/**
+ * What running the rules over entries that are already stored would do, as edits ready to commit. Skipped entries
+ * go to the trash, since they were saved before the rule existed. Entries the rules leave alone aren't included.
+ */
+export function planRules(
+  rules: Rule[],
+  entries: ClipboardEntry[],
+  now = Date.now(),
+): { changes: { entry: ClipboardEntry; outcome: RuleOutcome }[]; edits: Edit[] } {
+  const changes: { entry: ClipboardEntry; outcome: RuleOutcome }[] = [];
+  const edits: Edit[] = [];
+  const filed = new Map<string, number>();
+
+  for (const entry of entries) {
+    const evaluated = evaluateRules(rules, entry, now);
+    const tags = [...(entry.tags ?? []), ...evaluated.tags.filter((tag) => !entry.tags?.includes(tag))];
+    const update: Partial<ClipboardEntry> = {};
+    if (tags.length !== (entry.tags?.length ?? 0)) update.tags = tags;
+    if (evaluated.expiresAt && evaluated.expiresAt < (entry.expiresAt ?? Infinity))
+      update.expiresAt = evaluated.expiresAt;
+    // Entries due to expire aren't filed, since expiry only applies to history
+    const outcome = update.expiresAt || entry.expiresAt ? { ...evaluated, bucketId: undefined } : evaluated;
+
+    if (outcome.skip) {
+      edits.push({ type: "entry", entry, place: { trash: true } });
+    } else if (outcome.bucketId) {
+      // Filed entries keep their order at the top of the bucket
+      const index = filed.get(outcome.bucketId) ?? 0;
+      filed.set(outcome.bucketId, index + 1);
+      edits.push({ type: "entry", entry, place: { bucketId: outcome.bucketId, index }, update });
+    } else if (Object.keys(update).length > 0) {
+      edits.push({ type: "entry", entry, update });
+    } else {
+      continue;
+    }
+    changes.push({ entry, outcome });
+  }
+  return { changes, edits };
+}
+
+export async function loadRules(): Promise<Rule[]> {
+  const stored = await LocalStorage.getItem<string>(RULES_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export async function saveRules(rules: Rule[]): Promise<void> {
+  await LocalStorage.setItem(RULES_KEY, JSON.stringify(rules));
+}
@@ -0,0 +1,177 @@
+import { isLocked } from "./bucket-locks";
+import { breadcrumb } from "./bucket-tree";
+import { CONTENT_TYPES } from "./content-type";
+import { displayText, MatchRange } from "./format";
+import { Bucket, ClipboardEntry } from "./storage";
+
+/** A parsed search bar query: free text plus `in:`, `type:`, `app:`, `tag:`, `before:` and `after:` operators. */
+export interface SearchQuery {
+  text: string;
+  bucket?: string;
+  type?: string;
+  app?: string;
+  tag?: string;
+  before?: number;
+  after?: number;
+}
+
+export interface SearchResult {
+  entry: ClipboardEntry;
+  // Unset for entries in history
+  bucket?: Bucket;
+  score: number;
+  ranges: MatchRange[];
+}
+
+const TOKEN = /(\w+):("[^"]*"|\S+)|("[^"]*"|\S+)/g;
+
+const RELATIVE_DATE = /^(\d+)([hdwm])$/;
+const UNIT_MS = { h: 3_600_000, d: 86_400_000, w: 604_800_000, m: 2_592_000_000 };
+
+/** `2024-05-01`, or relative to now like `3d`, `2w`, `12h` or `6m`. */
+function parseDate(value: string): number | undefined {
+  const relative = value.match(RELATIVE_DATE);
+  if (relative) return Date.now() - Number(relative[1]) * UNIT_MS[relative[2] as keyof typeof UNIT_MS];
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, "$1");
+
+export function parseQuery(input: string): SearchQuery {
+  const query: SearchQuery = { text: "" };
+  const words: string[] = [];
+  for (const [token, operator, value, word] of input.matchAll(TOKEN)) {
+    switch (operator?.toLowerCase()) {
+      case "in":
+        query.bucket = unquote(value).toLowerCase();
+        break;
+      case "type":
+        query.type = unquote(value).toLowerCase();
+        break;
+      case "app":
+        query.app = unquote(value).toLowerCase();
+        break;
+      case "tag":
+        query.tag = unquote(value).toLowerCase();
+        break;
+      case "before":
+        query.before = parseDate(unquote(value));
+        break;
+      case "after":
+        query.after = parseDate(unquote(value));
+        break;
+      default:
+        words.push(word ? unquote(word) : token);
+    }
+  }
+  query.text = words.join(" ");
+  return query;
+}
+
+export function hasFilters(query: SearchQuery): boolean {
+  return [query.bucket, query.type, query.app, query.tag, query.before, query.after].some((v) => v !== undefined);
+}
+
+const isWordStart = (text: string, i: number) => i === 0 || /[\s\-_./:,;()[\]{}"']/.test(text[i - 1]);
+
+/**
+ * Scores `text` against `pattern`. A plain substring wins outright; otherwise the pattern's characters must
+ * appear in order, with bonuses for runs of consecutive characters and for matches at the start of words.
+ */
+export function fuzzyMatch(pattern: string, text: string): { score: number; ranges: MatchRange[] } | undefined {
+  const needle = pattern.toLowerCase().trim();
+  if (!needle) return { score: 0, ranges: [] };
+  const haystack = text.toLowerCase();
+
+  const substring = haystack.indexOf(needle);
+  if (substring !== -1) {
+    const bonus = isWordStart(haystack, substring) ? 50 : 0;
+    return { score: 1000 + bonus - substring / 100, ranges: [[substring, substring + needle.length]] };
+  }
+
+  const ranges: MatchRange[] = [];
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === " ") continue;
+    const i = haystack.indexOf(char, from);
+    if (i === -1) return undefined;
+    if (i === previous + 1) {
+      score += 5;
+      ranges[ranges.length - 1][1] = i + 1;
+    } else {
+      score -= Math.min(i - from, 10) / 10;
+      ranges.push([i, i + 1]);
+    }
+    if (isWordStart(haystack, i)) score += 8;
+    score += 1;
+    previous = i;
+    from = i + 1;
+  }
+  return { score, ranges };
+}
+
+// `type:` takes a content type by name or title (`url`, `colour`, `path`), or a code language (`sql`)
+function matchesType(entry: ClipboardEntry, type: string): boolean {
+  return (
+    entry.contentType === type ||
+    CONTENT_TYPES[entry.contentType]?.title.toLowerCase() === type ||
+    entry.language === type
+  );
+}
+
+function passesFilters(query: SearchQuery, entry: ClipboardEntry, bucketPath?: string): boolean {
+  if (query.bucket !== undefined && !bucketPath?.toLowerCase().includes(query.bucket)) return false;
+  if (query.type !== undefined && !matchesType(entry, query.type)) return false;
+  if (query.app !== undefined && !entry.sourceApp?.name.toLowerCase().includes(query.app)) return false;
+  if (query.tag !== undefined && !entry.tags?.some((tag) => tag.toLowerCase() === query.tag)) return false;
+  if (query.before !== undefined && entry.lastCopiedAt >= query.before) return false;
+  if (query.after !== undefined && entry.lastCopiedAt <= query.after) return false;
+  return true;
+}
+
+/** Every entry in history and unlocked buckets that matches `query`, best match first. */
+export function searchEntries(query: SearchQuery, history: ClipboardEntry[], buckets: Bucket[]): SearchResult[] {
+  const results: SearchResult[] = [];
+  const consider = (entry: ClipboardEntry, bucket?: Bucket) => {
+    if (bucket && isLocked(bucket)) return;
+    // `in:` matches the whole path, so it also finds entries in sub-buckets
+    if (!passesFilters(query, entry, bucket && breadcrumb(buckets, bucket.id))) return;
+    // Sensitive entries are only matched on their mask, never on the secret itself
+    const match = fuzzyMatch(query.text, displayText(entry));
+    // Titles and notes are searched too. Their matches can't be highlighted in the content, so they carry no ranges.
+    const described = [entry.title, entry.note].flatMap((text) => (text && fuzzyMatch(query.text, text)) || []);
+    const best = [match, ...described.map(({ score }) => ({ score, ranges: [] }))]
+      .filter((m) => m !== undefined)
+      .sort((a, b) => b.score - a.score)[0];
+    if (best) results.push({ entry, bucket, ...best });
+  };
+  history.forEach((entry) => consider(entry));
+  buckets.forEach((bucket) => bucket.items.forEach((entry) => consider(entry, bucket)));
+  return results.sort((a, b) => b.score - a.score || b.entry.lastCopiedAt - a.entry.lastCopiedAt);
+}
+
+const pathKey = (path: string) =>
+  path
+    .split(/[›>/]/)
+    .map((part) => part.trim().toLowerCase())
+    .join("/");
+
+/**
+ * The bucket a typed name refers to, for commands that take a bucket as an argument. An exact name or path
+ * (`Work › Snippets`, `Work/Snippets`) wins; otherwise the best fuzzy match on the name.
+ */
+export function findBucket(buckets: Bucket[], name: string): Bucket | undefined {
+  const wanted = pathKey(name);
+  const exact =
+    buckets.find((b) => pathKey(breadcrumb(buckets, b.id)) === wanted) ??
+    buckets.find((b) => b.name.trim().toLowerCase() === wanted);
+  if (exact) return exact;
+
+  return buckets
+    .map((bucket) => ({ bucket, match: fuzzyMatch(name, bucket.name) }))
+    .filter(({ match }) => match && match.score > 0)
+    .sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0))[0]?.bucket;
+}
@@ -0,0 +1,106 @@
+import { getPreferenceValues } from "@raycast/api";
+import { runAppleScript } from "@raycast/utils";
+
+export type SensitiveHandling = "mask" | "skip" | "expire";
+
+// Password managers mark what they copy with this pasteboard type (see nspasteboard.org)
+const CONCEALED_TYPE = "org.nspasteboard.ConcealedType";
+
+const PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: "Private key", pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----/ },
+  { label: "JWT", pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/ },
+  { label: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { label: "AWS secret key", pattern: /aws_secret_access_key\s*[:=]\s*["']?[A-Za-z0-9/+=]{40}/i },
+  { label: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36}|github_pat_\w{22,})\b/ },
+  { label: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+];
+
+// 13–19 digits, optionally grouped with spaces or dashes
+const CARD_NUMBER = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Issuer prefixes and the lengths their numbers come in. Plenty of IDs and timestamps pass the Luhn check by chance.
+const CARD_NETWORKS: { prefix: RegExp; lengths: number[] }[] = [
+  // Visa
+  { prefix: /^4/, lengths: [13, 16, 19] },
+  // Mastercard
+  { prefix: /^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/, lengths: [16] },
+  // American Express
+  { prefix: /^3[47]/, lengths: [15] },
+  // Diners Club
+  { prefix: /^3(?:0[0-5]|[689])/, lengths: [14, 16, 17, 18, 19] },
+  // JCB
+  { prefix: /^35(?:2[89]|[3-8]\d)/, lengths: [16, 17, 18, 19] },
+  // Discover and UnionPay
+  { prefix: /^(?:6011|64[4-9]|65|62)/, lengths: [16, 17, 18, 19] },
+];
+
+function isCardNumber(digits: string): boolean {
+  const network = CARD_NETWORKS.some(({ prefix, lengths }) => prefix.test(digits) && lengths.includes(digits.length));
+  return network && luhnValid(digits);
+}
+
+function hasCardNumber(text: string): boolean {
+  return [...text.matchAll(CARD_NUMBER)].some(([match]) => isCardNumber(match.replace(/\D/g, "")));
+}
+
+function userPattern(source: string | undefined): RegExp | undefined {
+  if (!source?.trim()) return undefined;
+  try {
+    return new RegExp(source);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Why `content` looks like a secret, or undefined if it doesn't. The allowlist wins over everything else. */
+export function detectSensitive(content: string): string | undefined {
+  const { sensitiveAllowlist, sensitiveDenylist } = getPreferenceValues<Preferences>();
+  if (userPattern(sensitiveAllowlist)?.test(content)) return undefined;
+  if (userPattern(sensitiveDenylist)?.test(content)) return "Matches denylist";
+  const match = PATTERNS.find(({ pattern }) => pattern.test(content));
+  if (match) return match.label;
+  if (hasCardNumber(content)) return "Card number";
+  return undefined;
+}
+
+/** Whether whatever's on the clipboard right now was marked as concealed by the app that copied it. */
+export async function isClipboardConcealed(): Promise<boolean> {
+  try {
+    const result = await runAppleScript(
+      `ObjC.import("AppKit");
+      ObjC.deepUnwrap($.NSPasteboard.generalPasteboard.types).includes("${CONCEALED_TYPE}");`,
+      { language: "JavaScript" },
+    );
+    return result === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function sensitivePreferences(): { handling: SensitiveHandling; ttl: number } {
+  const { sensitiveHandling, sensitiveTtl } = getPreferenceValues<Preferences>();
+  const minutes = Number(sensitiveTtl);
+  return {
+    handling: sensitiveHandling as SensitiveHandling,
+    ttl: (Number.isFinite(minutes) && minutes > 0 ? minutes : 10) * 60 * 1000,
+  };
+}
+
+/** A placeholder safe to show in place of sensitive content. */
+export function maskContent(content: string, reason: string): string {
+  const hint = content.length > 8 ? content.slice(0, 4) : "";
+  return `${hint}${"•".repeat(8)} (${reason})`;
+}
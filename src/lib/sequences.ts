@@ -0,0 +1,52 @@
+import { LocalStorage } from "@raycast/api";
+import { ClipboardEntry } from "./storage";
+
+/**
+ * Ordered runs of entries: pasted in one go with a separator, or one at a time from the paste stack. Only entry ids
+ * are kept here; the text itself stays in the (encrypted) store.
+ */
+
+const SEQUENCES_KEY = "copy-notes-sequences";
+const STACK_KEY = "copy-notes-paste-stack";
+
+export interface Sequence {
+  id: string;
+  name: string;
+  entryIds: string[];
+}
+
+/** The entries queued for "Paste Next", and how many of them have been pasted. */
+export interface PasteStack {
+  entryIds: string[];
+  next: number;
+}
+
+export const SEPARATORS = {
+  newline: { title: "Newline", text: "\n" },
+  tab: { title: "Tab", text: "\t" },
+  comma: { title: "Comma", text: ", " },
+};
+
+/** The entries still stored, in sequence order. Anything deleted since is skipped. */
+export function resolveSequence(entryIds: string[], entries: ClipboardEntry[]): ClipboardEntry[] {
+  return entryIds.flatMap((id) => entries.find((e) => e.id === id) ?? []);
+}
+
+export async function loadSequences(): Promise<Sequence[]> {
+  const stored = await LocalStorage.getItem<string>(SEQUENCES_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export async function saveSequences(sequences: Sequence[]): Promise<void> {
+  await LocalStorage.setItem(SEQUENCES_KEY, JSON.stringify(sequences));
+}
+
+export async function loadPasteStack(): Promise<PasteStack | undefined> {
+  const stored = await LocalStorage.getItem<string>(STACK_KEY);
+  return stored ? JSON.parse(stored) : undefined;
+}
+
+export async function savePasteStack(stack: PasteStack | undefined): Promise<void> {
+  if (stack) await LocalStorage.setItem(STACK_KEY, JSON.stringify(stack));
+  else await LocalStorage.removeItem(STACK_KEY);
+}
@@ -0,0 +1,161 @@
+import { Color, Icon } from "@raycast/api";
+import { randomUUID } from "crypto";
+import { BucketSort } from "./bucket-sort";
+import { ContentType } from "./content-type";
+import { migrations } from "./migrations";
+
+export const STORAGE_KEY = "copy-notes-buckets";
+export const HISTORY_KEY = "copy-notes-history";
+export const SCHEMA_VERSION_KEY = "copy-notes-schema-version";
+export const TRASH_KEY = "copy-notes-trash";
+
+// Version 1 stored history and bucket items as plain strings
+export const SCHEMA_VERSION = migrations.length + 1;
+
+export interface SourceApp {
+  name: string;
+  bundleId?: string;
+  path?: string;
+}
+
+export interface ClipboardEntry {
+  id: string;
+  content: string;
+  contentType: ContentType;
+  // Only set for code
+  language?: string;
+  firstCopiedAt: number;
+  lastCopiedAt: number;
+  copyCount: number;
+  sourceApp?: SourceApp;
+  // Why the entry looks like a secret. Sensitive entries are masked wherever they're listed.
+  sensitive?: string;
+  // Entries that should only be kept briefly are dropped from history after this time
+  expiresAt?: number;
+  tags?: string[];
+  // Pinned entries are kept no matter what the retention limits say
+  pinned?: boolean;
+  // Earlier text from before each edit, newest first
+  revisions?: Revision[];
+  // When it was last pasted or copied from Copy Notes, newest first. Used for ranking.
+  uses?: number[];
+  // Shown in place of the content when listed. Pasting and copying always use the content.
+  title?: string;
+  // Markdown, shown above the content in the detail
+  note?: string;
+}
+
+export interface Revision {
+  content: string;
+  // When it was replaced
+  editedAt: number;
+}
+
+export interface Bucket {
+  id: string;
+  name: string;
+  color: Color;
+  icon: Icon;
+  pinned: boolean;
+  // Unset for top-level buckets
+  parentId?: string;
+  // Items stay hidden until the lock passphrase is entered
+  locked?: boolean;
+  // How the items are listed. Unset means the order they're stored in, which is kept when sorting by anything else.
+  sort?: BucketSort;
+  // Mirrored to a file in the sync folder
+  synced?: boolean;
+  items: ClipboardEntry[];
+}
+
+export type BucketMeta = Omit<Bucket, "items">;
+
+/** Where an entry was before it was deleted — a bucket, or history when `bucketId` is unset. */
+export interface TrashedEntry {
+  entry: ClipboardEntry;
+  deletedAt: number;
+  origin: { bucketId?: string; index: number };
+}
+
+/** A deleted bucket. Its items are trashed separately, with the bucket as their origin. */
+export interface TrashedBucket {
+  bucket: BucketMeta;
+  deletedAt: number;
+  index: number;
+}
+
+export interface Trash {
+  entries: TrashedEntry[];
+  buckets: TrashedBucket[];
+}
+
+export const BUCKET_COLORS: { title: string; value: Color }[] = [
+  { title: "Blue", value: Color.Blue },
+  { title: "Green", value: Color.Green },
+  { title: "Orange", value: Color.Orange },
+  { title: "Purple", value: Color.Purple },
+  { title: "Magenta", value: Color.Magenta },
+  { title: "Red", value: Color.Red },
+  { title: "Yellow", value: Color.Yellow },
+  { title: "Default", value: Color.PrimaryText },
+];
+
+export const BUCKET_ICONS: { title: string; value: Icon }[] = [
+  { title: "Folder", value: Icon.Folder },
+  { title: "Star", value: Icon.Star },
+  { title: "Code", value: Icon.Code },
+  { title: "Link", value: Icon.Link },
+  { title: "Text", value: Icon.Text },
+  { title: "Envelope", value: Icon.Envelope },
+  { title: "Person", value: Icon.Person },
+  { title: "Terminal", value: Icon.Terminal },
+  { title: "Bug", value: Icon.Bug },
+  { title: "Lock", value: Icon.Lock },
+  { title: "Heart", value: Icon.Heart },
+  { title: "Bookmark", value: Icon.Bookmark },
+];
+
+/** A new, empty bucket. Colours cycle through the palette so neighbouring buckets are easy to tell apart. */
+export function createBucket(name: string, existing: Bucket[], parentId?: string): Bucket {
+  return {
+    id: randomUUID(),
+    name,
+    parentId,
+    color: BUCKET_COLORS[existing.length % BUCKET_COLORS.length].value,
+    icon: Icon.Folder,
+    pinned: false,
+    items: [],
+  };
+}
+
+/** Buckets in display order: pinned first, otherwise in their stored (manual) order. */
+export function sortBuckets(buckets: Bucket[]): Bucket[] {
+  return [...buckets.filter((b) => b.pinned), ...buckets.filter((b) => !b.pinned)];
+}
+
+export function isClipboardEntry(value: unknown): value is ClipboardEntry {
+  const entry = value as ClipboardEntry;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.id === "string" &&
+    typeof entry.content === "string" &&
+    typeof entry.contentType === "string" &&
+    typeof entry.firstCopiedAt === "number" &&
+    typeof entry.lastCopiedAt === "number" &&
+    typeof entry.copyCount === "number"
+  );
+}
+
+export function isBucket(value: unknown): value is Bucket {
+  const bucket = value as Bucket;
+  return (
+    typeof bucket === "object" &&
+    bucket !== null &&
+    typeof bucket.id === "string" &&
+    typeof bucket.name === "string" &&
+    (bucket.parentId === undefined || typeof bucket.parentId === "string") &&
+    Array.isArray(bucket.items) &&
+    bucket.items.every(isClipboardEntry)
+  );
+}
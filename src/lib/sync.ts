@@ -0,0 +1,272 @@
+import { getPreferenceValues } from "@raycast/api";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { classify, expandPath } from "./content-type";
+import { readStaged, StoreData, transaction } from "./repository";
+import { Bucket, ClipboardEntry, createBucket } from "./storage";
+import { fileName } from "./transfer";
+
+/**
+ * Mirrors shared buckets to JSON files in the sync folder, so a synced drive or a git checkout can pass them around.
+ * Each sync merges three versions of a bucket's items: ours, the file's, and the base both last agreed on. A change
+ * on one side wins; an item changed differently on both sides is a conflict. Until it's resolved we keep our
+ * version and the file keeps theirs, so neither is lost.
+ */
+
+const BASE_KEY = "copy-notes-sync-base";
+const CONFLICTS_KEY = "copy-notes-sync-conflicts";
+
+export interface SyncedItem {
+  id: string;
+  content: string;
+}
+
+/** What a bucket file holds. */
+interface SyncFile {
+  id: string;
+  name: string;
+  items: SyncedItem[];
+}
+
+// Keyed by bucket id. A bucket that stops syncing keeps its entry, so its file isn't taken for a new shared bucket.
+type SyncBase = Record<string, { file: string; items: SyncedItem[] }>;
+
+export interface SyncConflict {
+  bucketId: string;
+  bucketName: string;
+  itemId: string;
+  // Unset when that side removed the item
+  mine?: string;
+  theirs?: string;
+}
+
+interface Merge {
+  mine: SyncedItem[];
+  theirs: SyncedItem[];
+  base: SyncedItem[];
+  conflicts: { itemId: string; mine?: string; theirs?: string }[];
+}
+
+export function syncFolder(): string | undefined {
+  const { syncFolder } = getPreferenceValues<Preferences>();
+  return syncFolder ? expandPath(syncFolder) : undefined;
+}
+
+const toMap = (items: SyncedItem[]) => new Map(items.map((item) => [item.id, item.content]));
+const sameOrder = (a: SyncedItem[], b: SyncedItem[]) => a.map((i) => i.id).join() === b.map((i) => i.id).join();
+
+// Follows `primary`, slotting in what only `secondary` has at the position it has there
+function ordered(values: Map<string, string>, primary: SyncedItem[], secondary: SyncedItem[]): SyncedItem[] {
+  const ids = primary.map((i) => i.id).filter((id) => values.has(id));
+  secondary.forEach((item, index) => {
+    if (values.has(item.id) && !ids.includes(item.id)) ids.splice(Math.min(index, ids.length), 0, item.id);
+  });
+  return ids.map((id) => ({ id, content: values.get(id) as string }));
+}
+
+/** Three-way merge of a bucket's items, by id. Order follows whichever side rearranged them, ours if both did. */
+export function mergeItems(base: SyncedItem[], mine: SyncedItem[], theirs: SyncedItem[]): Merge {
+  const [was, ours, yours] = [toMap(base), toMap(mine), toMap(theirs)];
+  const results = {
+    mine: new Map<string, string>(),
+    theirs: new Map<string, string>(),
+    base: new Map<string, string>(),
+  };
+  const conflicts: Merge["conflicts"] = [];
+  const set = (map: Map<string, string>, id: string, content?: string) => content !== undefined && map.set(id, content);
+
+  for (const id of new Set([...ours.keys(), ...yours.keys(), ...was.keys()])) {
+    const [before, m, t] = [was.get(id), ours.get(id), yours.get(id)];
+    if (m !== t && m !== before && t !== before) {
+      conflicts.push({ itemId: id, mine: m, theirs: t });
+      set(results.mine, id, m);
+      set(results.theirs, id, t);
+      set(results.base, id, before);
+      continue;
+    }
+    // Whichever side still matches the base didn't change it, so the other side's version wins
+    const merged = m === before ? t : m;
+    Object.values(results).forEach((map) => set(map, id, merged));
+  }
+
+  const order = sameOrder(mine, base) ? [theirs, mine] : [mine, theirs];
+  return {
+    mine: ordered(results.mine, order[0], order[1]),
+    theirs: ordered(results.theirs, order[0], order[1]),
+    base: ordered(results.base, order[0], order[1]),
+    conflicts,
+  };
+}
+
+async function readFiles(folder: string): Promise<Map<string, { file: string; data: SyncFile }>> {
+  const files = new Map<string, { file: string; data: SyncFile }>();
+  for (const file of await readdir(folder)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const data = JSON.parse(await readFile(join(folder, file), "utf8"));
+      const valid =
+        typeof data?.id === "string" &&
+        typeof data.name === "string" &&
+        Array.isArray(data.items) &&
+        data.items.every((i: SyncedItem) => typeof i?.id === "string" && typeof i.content === "string");
+      if (valid) files.set(data.id, { file, data });
+    } catch {
+      // Not one of ours, or half written by the sync tool; it's picked up next time
+    }
+  }
+  return files;
+}
+
+// Moves the merged items into the bucket, keeping everything else about entries we already have
+function applyItems(data: StoreData, bucket: Bucket, items: SyncedItem[]): Bucket {
+  const now = Date.now();
+  const ids = new Set(items.map((i) => i.id));
+  const existing = new Map(
+    [...data.history, ...data.buckets.flatMap((b) => b.items), ...data.trash.entries.map((t) => t.entry)].map((e) => [
+      e.id,
+      e,
+    ]),
+  );
+
+  // An entry the file brings back is taken from wherever it is now, so it's never in two places
+  data.history = data.history.filter((e) => !ids.has(e.id));
+  data.trash.entries = data.trash.entries.filter((t) => !ids.has(t.entry.id));
+  data.buckets = data.buckets.map((b) =>
+    b.id === bucket.id ? b : { ...b, items: b.items.filter((e) => !ids.has(e.id)) },
+  );
+
+  // Items removed on the other side go to the trash rather than disappearing
+  bucket.items.forEach((entry, index) => {
+    if (!ids.has(entry.id))
+      data.trash.entries.unshift({ entry, deletedAt: now, origin: { bucketId: bucket.id, index } });
+  });
+
+  const entries = items.map(({ id, content }): ClipboardEntry => {
+    const entry = existing.get(id);
+    if (entry?.content === content) return entry;
+    const isFile = entry?.contentType === "file" || entry?.contentType === "image";
+    const type = { language: undefined, ...classify(content, isFile) };
+    if (entry) {
+      const revisions = [{ content: entry.content, editedAt: now }, ...(entry.revisions ?? [])];
+      return { ...entry, ...type, content, revisions };
+    }
+    return { id, content, ...type, firstCopiedAt: now, lastCopiedAt: now, copyCount: 1 };
+  });
+  return { ...bucket, items: entries };
+}
+
+const fileItems = (bucket: Bucket): SyncedItem[] => bucket.items.map(({ id, content }) => ({ id, content }));
+
+async function writeBucketFile(folder: string, file: string, data: SyncFile) {
+  const text = JSON.stringify(data, null, 2) + "\n";
+  const current = await readFile(join(folder, file), "utf8").catch(() => undefined);
+  if (current !== text) await writeFile(join(folder, file), text);
+}
+
+function newFileName(name: string, taken: Set<string>): string {
+  const stem = fileName(name);
+  let file = `${stem}.json`;
+  for (let n = 2; taken.has(file); n++) file = `${stem} ${n}.json`;
+  return file;
+}
+
+/**
+ * Merges every shared bucket with its file and writes the result back, and adds buckets that were shared from
+ * elsewhere. Resolves to the conflicts still waiting to be resolved; nothing happens without a sync folder.
+ */
+export async function syncBuckets(): Promise<SyncConflict[]> {
+  const folder = syncFolder();
+  if (!folder) return [];
+
+  // A synced drive can be slow, so the files are read before taking the lock and written after it's released
+  await mkdir(folder, { recursive: true });
+  const files = await readFiles(folder);
+  const writes: { file: string; data: SyncFile; previous?: SyncBase[string] }[] = [];
+
+  const conflicts = await transaction(async (data, stage) => {
+    const base = (await readStaged<SyncBase>(BASE_KEY)) ?? {};
+    const taken = new Set([...files.values()].map((f) => f.file));
+    const conflicts: SyncConflict[] = [];
+
+    // Locked buckets are never written out in plain text
+    const sharedIds = data.buckets.filter((b) => b.synced && !b.locked).map((b) => b.id);
+    for (const id of sharedIds) {
+      // Looked up each time, since merging an earlier bucket can take entries out of this one
+      const bucket = data.buckets.find((b) => b.id === id) as Bucket;
+      const remote = files.get(bucket.id);
+      const agreed = base[bucket.id];
+      const file = remote?.file ?? agreed?.file ?? newFileName(bucket.name, taken);
+      taken.add(file);
+
+      // A missing file is treated as unchanged, so deleting it just writes it again
+      const merge = mergeItems(agreed?.items ?? [], fileItems(bucket), remote?.data.items ?? agreed?.items ?? []);
+      const merged = applyItems(data, bucket, merge.mine);
+      data.buckets = data.buckets.map((b) => (b.id === bucket.id ? merged : b));
+      writes.push({ file, data: { id: bucket.id, name: bucket.name, items: merge.theirs }, previous: agreed });
+      base[bucket.id] = { file, items: merge.base };
+      conflicts.push(...merge.conflicts.map((c) => ({ ...c, bucketId: bucket.id, bucketName: bucket.name })));
+    }
+
+    // Files we've never seen are buckets someone else shared
+    for (const [id, { file, data: shared }] of files) {
+      if (base[id] || data.buckets.some((b) => b.id === id)) continue;
+      const bucket = { ...createBucket(shared.name, data.buckets), id, synced: true };
+      data.buckets.push(applyItems(data, bucket, shared.items));
+      base[id] = { file, items: shared.items };
+    }
+
+    stage(BASE_KEY, base);
+    stage(CONFLICTS_KEY, conflicts);
+    return conflicts;
+  });
+
+  for (const { file, data, previous } of writes) {
+    try {
+      await writeBucketFile(folder, file, data);
+    } catch (error) {
+      // The file still has the old version, so the base goes back to match it; otherwise the next sync would
+      // take that old version for a change made elsewhere
+      await transaction(async (_, stage) => {
+        const base = (await readStaged<SyncBase>(BASE_KEY)) ?? {};
+        if (previous) base[data.id] = previous;
+        else delete base[data.id];
+        stage(BASE_KEY, base);
+      });
+      throw error;
+    }
+  }
+  return conflicts;
+}
+
+/** Conflicts found by the last sync. */
+export function syncConflicts(): Promise<SyncConflict[]> {
+  return transaction(async () => (await readStaged<SyncConflict[]>(CONFLICTS_KEY)) ?? []);
+}
+
+/**
+ * Settles a conflict. Keeping theirs takes the file's version (or removal) into the bucket; keeping ours moves the
+ * base to theirs, so the next sync sees only our change and writes it out. Then syncs to do just that.
+ */
+export async function resolveConflict(conflict: SyncConflict, keep: "mine" | "theirs"): Promise<SyncConflict[]> {
+  await transaction(async (data, stage) => {
+    const base = (await readStaged<SyncBase>(BASE_KEY)) ?? {};
+    const bucket = data.buckets.find((b) => b.id === conflict.bucketId);
+    const agreed = base[conflict.bucketId];
+    if (!bucket || !agreed) return;
+
+    const replace = (items: SyncedItem[], content?: string) => {
+      const index = items.findIndex((i) => i.id === conflict.itemId);
+      const rest = items.filter((i) => i.id !== conflict.itemId);
+      if (content !== undefined) rest.splice(index === -1 ? rest.length : index, 0, { id: conflict.itemId, content });
+      return rest;
+    };
+    if (keep === "theirs") {
+      const merged = applyItems(data, bucket, replace(fileItems(bucket), conflict.theirs));
+      data.buckets = data.buckets.map((b) => (b.id === bucket.id ? merged : b));
+    } else {
+      base[conflict.bucketId] = { ...agreed, items: replace(agreed.items, conflict.theirs) };
+      stage(BASE_KEY, base);
+    }
+  });
+  return syncBuckets();
+}
@@ -0,0 +1,32 @@
+import { isLocked } from "./bucket-locks";
+import { Edit } from "./operations";
+import { Bucket, ClipboardEntry } from "./storage";
+
+/** Tags are free-form, but whitespace is trimmed and a leading `#` is dropped so `#work` and `work` are the same. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").trim();
+}
+
+/** Tags typed as a comma-separated list. */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map(normalizeTag).filter(Boolean))];
+}
+
+/** Every tag in use, most used first. Tags only used in locked buckets aren't given away. */
+export function allTags(history: ClipboardEntry[], buckets: Bucket[]): string[] {
+  const counts = new Map<string, number>();
+  for (const entry of [...history, ...buckets.filter((b) => !isLocked(b)).flatMap((b) => b.items)]) {
+    entry.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  }
+  return [...counts.keys()].sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b));
+}
+
+/** Edits that add and remove tags. Entries stay where they are; ones whose tags don't change are left out. */
+export function tagEdits(entries: ClipboardEntry[], add: string[], remove: string[] = []): Edit[] {
+  return entries.flatMap((entry): Edit[] => {
+    const current = entry.tags ?? [];
+    const tags = [...current.filter((tag) => !remove.includes(tag)), ...add.filter((tag) => !current.includes(tag))];
+    const unchanged = tags.length === current.length && tags.every((tag) => current.includes(tag));
+    return unchanged ? [] : [{ type: "entry", entry, update: { tags: tags.length > 0 ? tags : undefined } }];
+  });
+}
@@ -0,0 +1,77 @@
+import { Clipboard } from "@raycast/api";
+import { runAppleScript } from "@raycast/utils";
+
+// `{name}` style placeholders. Shell/JS `${var}` and Handlebars `{{var}}` are left alone so code snippets paste untouched.
+const PLACEHOLDER = /(?<![$\w{])\{([A-Za-z_][\w-]*)\}(?!\})/g;
+
+const CURSOR = "cursor";
+
+// Resolved at paste time without asking
+const BUILT_INS: Record<string, () => Promise<string> | string> = {
+  date: () => new Date().toLocaleDateString(),
+  time: () => new Date().toLocaleTimeString(),
+  datetime: () => new Date().toLocaleString(),
+  clipboard: async () => (await Clipboard.readText()) ?? "",
+};
+
+// Moving the cursor back is one key press per character, so give up on very long tails
+const MAX_CURSOR_TRAVEL = 500;
+
+/** Names of the placeholders the user has to fill in, in order of first appearance. */
+export function templateFields(text: string): string[] {
+  const fields: string[] = [];
+  for (const [, name] of text.matchAll(PLACEHOLDER)) {
+    if (name !== CURSOR && !(name in BUILT_INS) && !fields.includes(name)) fields.push(name);
+  }
+  return fields;
+}
+
+export function isTemplate(text: string): boolean {
+  return text.match(PLACEHOLDER) !== null;
+}
+
+/**
+ * Substitutes built-in and user-supplied placeholders. Unknown placeholders are kept as written.
+ * `cursorOffset` is the number of characters after the first `{cursor}`, if there is one.
+ */
+export async function renderTemplate(
+  text: string,
+  values: Record<string, string> = {},
+): Promise<{ text: string; cursorOffset?: number }> {
+  const builtIns: Record<string, string> = {};
+  for (const [, name] of text.matchAll(PLACEHOLDER)) {
+    if (name in BUILT_INS && !(name in builtIns)) builtIns[name] = await BUILT_INS[name]();
+  }
+
+  let cursorIndex: number | undefined;
+  let rendered = "";
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const [placeholder, name] = match;
+    rendered += text.slice(last, match.index);
+    last = (match.index ?? 0) + placeholder.length;
+    if (name === CURSOR) {
+      cursorIndex ??= rendered.length;
+    } else {
+      rendered += values[name] ?? builtIns[name] ?? placeholder;
+    }
+  }
+  rendered += text.slice(last);
+
+  return { text: rendered, cursorOffset: cursorIndex === undefined ? undefined : rendered.length - cursorIndex };
+}
+
+/** Pastes the rendered template and, if it had a `{cursor}`, moves the caret back to that spot. */
+export async function pasteTemplate(text: string, values: Record<string, string> = {}): Promise<void> {
+  const rendered = await renderTemplate(text, values);
+  await Clipboard.paste(rendered.text);
+  if (rendered.cursorOffset && rendered.cursorOffset <= MAX_CURSOR_TRAVEL) {
+    await runAppleScript(`
+      tell application "System Events"
+        repeat ${rendered.cursorOffset} times
+          key code 123
+        end repeat
+      end tell
+    `);
+  }
+}
@@ -0,0 +1,209 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { isLocked } from "./bucket-locks";
+import { bucketPath, breadcrumb } from "./bucket-tree";
+import { bucketDocument } from "./format";
+import { migrations, StoredData } from "./migrations";
+import { Bucket, ClipboardEntry, isBucket, isClipboardEntry, SCHEMA_VERSION, Trash } from "./storage";
+
+const BUNDLE_FORMAT = "copy-notes";
+
+/** Everything needed to restore Copy Notes elsewhere. `version` is the storage schema version it was written with. */
+export interface ExportBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  history: ClipboardEntry[];
+  buckets: Bucket[];
+}
+
+export type ExportFormat = "json" | "markdown" | "csv";
+
+export type ImportMode = "merge" | "replace";
+
+export interface ImportReport {
+  added: number;
+  duplicates: number;
+  newBuckets: string[];
+  // Imported buckets whose path already exists under a different bucket; their items are merged into it
+  conflicts: string[];
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(history: ClipboardEntry[], buckets: Bucket[]): string {
+  const header = ["bucket", "content", "content_type", "first_copied", "last_copied", "copy_count", "source_app"];
+  const row = (bucket: string, e: ClipboardEntry) =>
+    [
+      bucket,
+      e.content,
+      e.contentType,
+      new Date(e.firstCopiedAt).toISOString(),
+      new Date(e.lastCopiedAt).toISOString(),
+      e.copyCount,
+      e.sourceApp?.name,
+    ]
+      .map(csvField)
+      .join(",");
+  const rows = [
+    ...buckets.flatMap((b) => b.items.map((e) => row(breadcrumb(buckets, b.id), e))),
+    ...history.map((e) => row("", e)),
+  ];
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
+
+export function fileName(name: string): string {
+  return name.replace(/[/\\:*?"<>|]/g, "-").trim() || "Untitled";
+}
+
+/**
+ * Writes the chosen formats into `folder` and returns the paths created. Buckets that are still locked keep their
+ * place but are written out empty, so an export can't be used to read them without the passphrase.
+ */
+export async function exportData(
+  folder: string,
+  formats: ExportFormat[],
+  history: ClipboardEntry[],
+  stored: Bucket[],
+): Promise<string[]> {
+  const buckets = stored.map((bucket) => (isLocked(bucket) ? { ...bucket, items: [] } : bucket));
+  const stamp = new Date().toISOString().slice(0, 10);
+  const written: string[] = [];
+
+  if (formats.includes("json")) {
+    const bundle: ExportBundle = {
+      format: BUNDLE_FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      history,
+      buckets,
+    };
+    const path = join(folder, `copy-notes-${stamp}.json`);
+    await writeFile(path, JSON.stringify(bundle, null, 2));
+    written.push(path);
+  }
+
+  if (formats.includes("markdown")) {
+    const dir = join(folder, `copy-notes-${stamp}`);
+    await mkdir(dir, { recursive: true });
+    for (const bucket of buckets.filter((b) => !isLocked(b))) {
+      const name = bucketPath(buckets, bucket.id)
+        .map((b) => fileName(b.name))
+        .join(" - ");
+      await writeFile(join(dir, `${name}.md`), bucketDocument(bucket, buckets));
+    }
+    written.push(dir);
+  }
+
+  if (formats.includes("csv")) {
+    const path = join(folder, `copy-notes-${stamp}.csv`);
+    await writeFile(path, toCsv(history, buckets));
+    written.push(path);
+  }
+
+  return written;
+}
+
+/** Reads and validates an exported JSON bundle, upgrading it if it came from an older version. */
+export async function readBundle(path: string): Promise<ExportBundle> {
+  let parsed: Partial<ExportBundle>;
+  try {
+    parsed = JSON.parse(await readFile(path, "utf8"));
+  } catch {
+    throw new Error("Not a valid JSON file");
+  }
+  if (parsed?.format !== BUNDLE_FORMAT || typeof parsed.version !== "number") {
+    throw new Error("Not a Copy Notes export");
+  }
+  if (parsed.version > SCHEMA_VERSION) {
+    throw new Error("Exported by a newer version of Copy Notes");
+  }
+
+  let data: StoredData = { history: parsed.history, buckets: parsed.buckets };
+  try {
+    for (const migrate of migrations.slice(parsed.version - 1)) data = migrate(data);
+  } catch {
+    throw new Error("The export is malformed");
+  }
+
+  if (!Array.isArray(data.history) || !data.history.every(isClipboardEntry)) {
+    throw new Error("History in the export is malformed");
+  }
+  if (!Array.isArray(data.buckets) || !data.buckets.every(isBucket)) {
+    throw new Error("Buckets in the export are malformed");
+  }
+  return { ...(parsed as ExportBundle), history: data.history, buckets: data.buckets };
+}
+
+/**
+ * Works out the result of importing `bundle` without touching storage, so the report can be confirmed first.
+ * Merging skips any content that's already stored and folds buckets into existing ones with the same path.
+ * The trash is kept either way, and an entry restored from it keeps its id, so imported entries never reuse one.
+ */
+export function planImport(
+  bundle: ExportBundle,
+  history: ClipboardEntry[],
+  buckets: Bucket[],
+  trash: Trash,
+  mode: ImportMode,
+): { history: ClipboardEntry[]; buckets: Bucket[]; report: ImportReport } {
+  const trashed = new Set(trash.entries.map((t) => t.entry.id));
+  if (mode === "replace") {
+    const added = bundle.history.length + bundle.buckets.reduce((n, b) => n + b.items.length, 0);
+    const fresh = (entry: ClipboardEntry) => (trashed.has(entry.id) ? { ...entry, id: randomUUID() } : entry);
+    return {
+      history: bundle.history.map(fresh),
+      buckets: bundle.buckets.map((b) => ({ ...b, items: b.items.map(fresh) })),
+      report: { added, duplicates: 0, newBuckets: bundle.buckets.map((b) => b.name), conflicts: [] },
+    };
+  }
+
+  const report: ImportReport = { added: 0, duplicates: 0, newBuckets: [], conflicts: [] };
+  const mergedHistory = [...history];
+  const mergedBuckets = buckets.map((b) => ({ ...b, items: [...b.items] }));
+  const stored = new Set([...history, ...buckets.flatMap((b) => b.items)].map((e) => e.content));
+  const ids = new Set([...[...history, ...buckets.flatMap((b) => b.items)].map((e) => e.id), ...trashed]);
+  const targetIds = new Map<string, string>();
+
+  const add = (entry: ClipboardEntry, into: ClipboardEntry[]) => {
+    if (stored.has(entry.content)) {
+      report.duplicates += 1;
+      return;
+    }
+    const id = ids.has(entry.id) ? randomUUID() : entry.id;
+    into.push({ ...entry, id });
+    stored.add(entry.content);
+    ids.add(id);
+    report.added += 1;
+  };
+
+  // Parents before children, so a child can be attached to wherever its parent ended up
+  const byDepth = [...bundle.buckets].sort(
+    (a, b) => bucketPath(bundle.buckets, a.id).length - bucketPath(bundle.buckets, b.id).length,
+  );
+  for (const incoming of byDepth) {
+    const parentId = incoming.parentId ? targetIds.get(incoming.parentId) : undefined;
+    let target =
+      mergedBuckets.find((b) => b.id === incoming.id) ??
+      mergedBuckets.find((b) => b.parentId === parentId && b.name.toLowerCase() === incoming.name.toLowerCase());
+    if (target && target.id !== incoming.id) {
+      report.conflicts.push(breadcrumb(bundle.buckets, incoming.id));
+    }
+    if (!target) {
+      target = { ...incoming, parentId, items: [] };
+      mergedBuckets.push(target);
+      report.newBuckets.push(breadcrumb(bundle.buckets, incoming.id));
+    }
+    targetIds.set(incoming.id, target.id);
+    for (const entry of incoming.items) add(entry, target.items);
+  }
+
+  for (const entry of bundle.history) add(entry, mergedHistory);
+  mergedHistory.sort((a, b) => b.lastCopiedAt - a.lastCopiedAt);
+
+  return { history: mergedHistory, buckets: mergedBuckets, report };
+}
@@ -0,0 +1,128 @@
+import { LocalStorage } from "@raycast/api";
+import { randomUUID } from "crypto";
+
+const PRESETS_KEY = "copy-notes-paste-presets";
+
+export type TransformId =
+  | "trim"
+  | "collapse-whitespace"
+  | "upper"
+  | "lower"
+  | "title"
+  | "camel"
+  | "snake"
+  | "strip-formatting"
+  | "markdown-list"
+  | "markdown-quote"
+  | "code-block"
+  | "json-escape"
+  | "json-unescape"
+  | "url-encode"
+  | "url-decode";
+
+/** A saved chain of transforms, applied in order. The separator joins items when several are pasted at once. */
+export interface PastePreset {
+  id: string;
+  name: string;
+  transforms: TransformId[];
+  separator: string;
+}
+
+const words = (text: string) =>
+  text
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean);
+
+const lines = (text: string, prefix: string) =>
+  text
+    .split("\n")
+    .map((line) => (line.trim() ? prefix + line : line))
+    .join("\n");
+
+// Leaves the text alone if it can't be decoded, rather than failing the paste
+function attempt(transform: (text: string) => string): (text: string) => string {
+  return (text) => {
+    try {
+      return transform(text);
+    } catch {
+      return text;
+    }
+  };
+}
+
+export const TRANSFORMS: { id: TransformId; title: string; apply: (text: string) => string }[] = [
+  { id: "trim", title: "Trimmed", apply: (t) => t.trim() },
+  { id: "collapse-whitespace", title: "Collapsed Whitespace", apply: (t) => t.replace(/\s+/g, " ").trim() },
+  { id: "upper", title: "UPPERCASE", apply: (t) => t.toUpperCase() },
+  { id: "lower", title: "lowercase", apply: (t) => t.toLowerCase() },
+  {
+    id: "title",
+    title: "Title Case",
+    apply: (t) => t.toLowerCase().replace(/(^|[\s\-_/(["'])(\p{L})/gu, (_, lead, c) => lead + c.toUpperCase()),
+  },
+  {
+    id: "camel",
+    title: "camelCase",
+    apply: (t) =>
+      words(t)
+        .map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase()))
+        .join(""),
+  },
+  {
+    id: "snake",
+    title: "snake_case",
+    apply: (t) =>
+      words(t)
+        .map((w) => w.toLowerCase())
+        .join("_"),
+  },
+  {
+    id: "strip-formatting",
+    title: "Plain Text",
+    apply: (t) =>
+      t
+        .replace(/<[^>]+>/g, "")
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/^\s{0,3}(?:#{1,6}\s+|>\s?|[-*+]\s+|\d+\.\s+)/gm, "")
+        .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, "$2"),
+  },
+  { id: "markdown-list", title: "Markdown List", apply: (t) => lines(t, "- ") },
+  { id: "markdown-quote", title: "Markdown Quote", apply: (t) => lines(t, "> ") },
+  { id: "code-block", title: "Markdown Code Block", apply: (t) => "```\n" + t + "\n```" },
+  { id: "json-escape", title: "JSON Escaped", apply: (t) => JSON.stringify(t).slice(1, -1) },
+  { id: "json-unescape", title: "JSON Unescaped", apply: attempt((t) => JSON.parse(`"${t}"`)) },
+  { id: "url-encode", title: "URL Encoded", apply: (t) => encodeURIComponent(t) },
+  { id: "url-decode", title: "URL Decoded", apply: attempt((t) => decodeURIComponent(t)) },
+];
+
+/** Lets separators be typed as `\n` or `\t` in a text field, with `\\` for a backslash. */
+export function parseSeparator(separator: string): string {
+  return separator.replace(/\\([nt\\])/g, (_, c: string) => (c === "n" ? "\n" : c === "t" ? "\t" : "\\"));
+}
+
+/** Applies `transforms` to each text in turn, then joins the results with `separator`. */
+export function transformTexts(texts: string[], transforms: TransformId[], separator = "\n"): string {
+  return texts
+    .map((text) =>
+      transforms.reduce((result, id) => TRANSFORMS.find((t) => t.id === id)?.apply(result) ?? result, text),
+    )
+    .join(separator);
+}
+
+export async function loadPresets(): Promise<PastePreset[]> {
+  const stored = await LocalStorage.getItem<string>(PRESETS_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export async function savePreset(name: string, transforms: TransformId[], separator: string): Promise<PastePreset> {
+  const presets = await loadPresets();
+  const preset = { id: randomUUID(), name, transforms, separator };
+  await LocalStorage.setItem(PRESETS_KEY, JSON.stringify([...presets, preset]));
+  return preset;
+}
+
+export async function deletePreset(id: string): Promise<void> {
+  const presets = await loadPresets();
+  await LocalStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter((p) => p.id !== id)));
+}
@@ -0,0 +1,72 @@
+import { Icon, launchCommand, LaunchType, MenuBarExtra } from "@raycast/api";
+import { ReactElement } from "react";
+import { useStore } from "./components/use-store";
+import { sortedItems } from "./lib/bucket-sort";
+import { childBuckets } from "./lib/bucket-tree";
+import { contentIcon } from "./lib/content-type";
+import { entryLabel, truncate } from "./lib/format";
+import { recordUse } from "./lib/frecency";
+import { ClipboardEntry } from "./lib/storage";
+import { pasteTemplate } from "./lib/templates";
+
+const RECENT_COUNT = 10;
+
+function EntryItem({ entry }: { entry: ClipboardEntry }) {
+  return (
+    <MenuBarExtra.Item
+      icon={contentIcon(entry.contentType, entry.content)}
+      title={truncate(entryLabel(entry).replace(/\s+/g, " ").trim(), 40)}
+      // Custom template fields can't be asked for from the menu bar, so only the built-ins are filled in
+      onAction={async () => {
+        await pasteTemplate(entry.content);
+        await recordUse([entry.id]);
+      }}
+    />
+  );
+}
+
+export default function Command() {
+  const data = useStore();
+  const history = data?.history;
+  const buckets = data?.buckets ?? [];
+
+  function bucketMenu(parentId?: string): ReactElement[] {
+    return childBuckets(buckets, parentId).map((bucket) => (
+      <MenuBarExtra.Submenu key={bucket.id} title={bucket.name} icon={{ source: bucket.icon, tintColor: bucket.color }}>
+        {bucketMenu(bucket.id)}
+        {/* There's nowhere to enter the passphrase here */}
+        {bucket.locked ? (
+          <MenuBarExtra.Item title="Locked" icon={Icon.Lock} />
+        ) : (
+          <>
+            {bucket.items.length === 0 && childBuckets(buckets, bucket.id).length === 0 && (
+              <MenuBarExtra.Item title="Empty" />
+            )}
+            {sortedItems(bucket).map((entry) => (
+              <EntryItem key={entry.id} entry={entry} />
+            ))}
+          </>
+        )}
+      </MenuBarExtra.Submenu>
+    ));
+  }
+
+  return (
+    <MenuBarExtra icon={Icon.Clipboard} tooltip="Copy Notes" isLoading={!history}>
+      <MenuBarExtra.Section title="Recent">
+        {history?.slice(0, RECENT_COUNT).map((entry) => (
+          <EntryItem key={entry.id} entry={entry} />
+        ))}
+      </MenuBarExtra.Section>
+      {buckets.length > 0 && <MenuBarExtra.Section title="Buckets">{bucketMenu()}</MenuBarExtra.Section>}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open Copy Notes"
+          icon={Icon.AppWindowList}
+          shortcut={{ modifiers: ["cmd"], key: "o" }}
+          onAction={() => launchCommand({ name: "copy-notes", type: LaunchType.UserInitiated })}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,31 @@
+import { LaunchProps, showHUD } from "@raycast/api";
+import { sortedItems } from "./lib/bucket-sort";
+import { findBucket } from "./lib/search";
+import { read } from "./lib/repository";
+import { recordUse } from "./lib/frecency";
+import { pasteTemplate } from "./lib/templates";
+
+// Meant to be bound to a hotkey (via a quicklink with fixed arguments), so failures are reported as a HUD
+export default async function Command(props: LaunchProps<{ arguments: Arguments.PasteBucketItem }>) {
+  const { buckets } = await read();
+  const bucket = findBucket(buckets, props.arguments.bucket);
+  if (!bucket) {
+    await showHUD(`No bucket named "${props.arguments.bucket}"`);
+    return;
+  }
+  if (bucket.locked) {
+    await showHUD(`"${bucket.name}" is locked`);
+    return;
+  }
+
+  const position = props.arguments.position?.trim() ? Number(props.arguments.position) : 1;
+  const entry = Number.isInteger(position) && position > 0 ? sortedItems(bucket)[position - 1] : undefined;
+  if (!entry) {
+    await showHUD(`"${bucket.name}" has no item ${props.arguments.position}`);
+    return;
+  }
+
+  // There's nowhere to ask for custom template fields here, so only the built-ins are filled in
+  await pasteTemplate(entry.content);
+  await recordUse([entry.id]);
+}
@@ -0,0 +1,40 @@
+import { Action, ActionPanel, Icon, LaunchProps, List, useNavigation } from "@raycast/api";
+import { BucketItemsView } from "./components/bucket-items-view";
+import { bucketSummary } from "./components/entry";
+import { useStore } from "./components/use-store";
+import { breadcrumb } from "./lib/bucket-tree";
+import { findBucket } from "./lib/search";
+
+// Goes straight to the named bucket, or lets the user pick one if the name doesn't match any
+export default function Command(props: LaunchProps<{ arguments: Arguments.PasteFromBucket }>) {
+  const buckets = useStore()?.buckets;
+  const { push } = useNavigation();
+
+  const bucket = buckets && findBucket(buckets, props.arguments.bucket);
+  if (buckets && bucket) return <BucketItemsView bucket={bucket} buckets={buckets} />;
+
+  return (
+    <List isLoading={!buckets} searchBarPlaceholder="Pick a bucket...">
+      <List.EmptyView icon={Icon.Folder} title="No buckets yet" description="Create one in Copy Notes first" />
+      <List.Section title={`No bucket matches "${props.arguments.bucket}"`}>
+        {buckets?.map((b) => (
+          <List.Item
+            key={b.id}
+            icon={{ source: b.icon, tintColor: b.color }}
+            title={breadcrumb(buckets, b.id)}
+            subtitle={bucketSummary(b, buckets)}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Open Bucket"
+                  icon={Icon.ArrowRight}
+                  onAction={() => push(<BucketItemsView bucket={b} buckets={buckets} />)}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,33 @@
+import { showHUD } from "@raycast/api";
+import { isLocked } from "./lib/bucket-locks";
+import { read } from "./lib/repository";
+import { loadPasteStack, resolveSequence, savePasteStack } from "./lib/sequences";
+import { recordUse } from "./lib/frecency";
+import { pasteTemplate } from "./lib/templates";
+
+// Bound to a hotkey and run once per field, so progress is reported as a HUD
+export default async function Command() {
+  const stack = await loadPasteStack();
+  if (!stack) {
+    await showHUD("No paste stack. Start one from a selection or a saved sequence");
+    return;
+  }
+
+  // Entries in locked buckets count as missing: there's no passphrase prompt here to unlock them
+  const { history, buckets } = await read();
+  const available = [...history, ...buckets.filter((b) => !isLocked(b)).flatMap((b) => b.items)];
+  const entries = resolveSequence(stack.entryIds.slice(stack.next), available);
+  const [entry] = entries;
+  if (!entry) {
+    await savePasteStack(undefined);
+    await showHUD("Paste stack finished");
+    return;
+  }
+
+  // Deleted entries are skipped over rather than leaving a gap
+  const next = stack.entryIds.indexOf(entry.id, stack.next) + 1;
+  await savePasteStack(next < stack.entryIds.length ? { ...stack, next } : undefined);
+  await pasteTemplate(entry.content);
+  await recordUse([entry.id]);
+  await showHUD(entries.length > 1 ? `Pasted ${next} of ${stack.entryIds.length}` : "Pasted the last item");
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // @raycast/api only ships types outside Raycast, so tests mock it; the alias just gives vi.mock an id to replace
+    alias: { "@raycast/api": new URL("./node_modules/@raycast/api/types/index.d.ts", import.meta.url).pathname },
+  },
+});